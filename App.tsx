@@ -1,24 +1,52 @@
-import React from 'react';
-import { Routes, Route, Navigate } from 'react-router-dom';
+import React, { useEffect } from 'react';
+import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { AuthProvider, useAuth } from './context/AuthContext';
+import { ToastProvider } from './context/ToastContext';
 import Login from './pages/Login';
 import Dashboard from './pages/Dashboard';
 import Reports from './pages/Reports';
+import ReportDetail from './pages/ReportDetail';
+import DeletedReports from './pages/DeletedReports';
 import UserManagement from './pages/UserManagement';
+import Clinics from './pages/Clinics';
+import AuditLog from './pages/AuditLog';
 import UploadReport from './pages/UploadReport'; // ✅ new page
 import Layout from './components/Layout';
-import { UserRole } from './types';
+import ErrorBoundary from './components/ErrorBoundary';
+import RequirePermission from './components/RequirePermission';
+import SessionTimeoutModal from './components/SessionTimeoutModal';
+import { consumeReturnPath, saveReturnPath } from './services/sessionTimeout';
 
 const App: React.FC = () => {
   return (
     <AuthProvider>
-      <Main />
+      <ToastProvider>
+        <Main />
+      </ToastProvider>
     </AuthProvider>
   );
 };
 
+// Signed-out visit to a deep link: remember it and send the user to sign in.
+// Router state covers the mock sign-in; sessionStorage survives the Cognito redirect.
+const RedirectToLogin: React.FC = () => {
+  const location = useLocation();
+  const from = location.pathname + location.search;
+  useEffect(() => saveReturnPath(from), [from]);
+  return <Navigate to="/login" replace state={{ from }} />;
+};
+
 const Main: React.FC = () => {
   const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Back from sign-in (after a timeout or a signed-out deep link): return to the page asked for.
+  useEffect(() => {
+    if (!user) return;
+    const returnPath = consumeReturnPath();
+    if (returnPath) navigate(returnPath, { replace: true });
+  }, [user, navigate]);
 
   if (loading) {
     return (
@@ -28,40 +56,82 @@ const Main: React.FC = () => {
     );
   }
 
+  const from = (location.state as { from?: string } | null)?.from;
+
   return (
     <Routes>
       {/* Login route */}
-      <Route path="/login" element={!user ? <Login /> : <Navigate to="/" />} />
+      <Route path="/login" element={!user ? <Login /> : <Navigate to={from || '/'} replace />} />
 
       {/* Protected routes */}
       <Route
         path="/*"
         element={
           user ? (
-            <Layout>
-              <Routes>
-                <Route path="/" element={<Dashboard />} />
-                <Route path="/dashboard" element={<Dashboard />} />
+            <ErrorBoundary resetKey={location.pathname}>
+              <Layout>
+                <SessionTimeoutModal />
+                <Routes>
+                  <Route path="/" element={<Dashboard />} />
+                  <Route path="/dashboard" element={<Dashboard />} />
+
+                  {/* Reports (all roles see their version) */}
+                  <Route path="/reports" element={<Reports />} />
+                  <Route
+                    path="/reports/deleted"
+                    element={
+                      <RequirePermission permission="report.delete">
+                        <DeletedReports />
+                      </RequirePermission>
+                    }
+                  />
+                  <Route path="/reports/:id" element={<ReportDetail />} />
+
+                  {/* ✅ Only Clinic Staff can access Upload */}
+                  <Route
+                    path="/upload"
+                    element={
+                      <RequirePermission permission="report.upload">
+                        <UploadReport />
+                      </RequirePermission>
+                    }
+                  />
 
-                {/* Reports (all roles see their version) */}
-                <Route path="/reports" element={<Reports />} />
+                  {/* ✅ Only Admins can access User Management */}
+                  <Route
+                    path="/users"
+                    element={
+                      <RequirePermission permission="user.view">
+                        <UserManagement />
+                      </RequirePermission>
+                    }
+                  />
 
-                {/* ✅ Only Clinic Staff can access Upload */}
-                {user.role === UserRole.CLINIC && (
-                  <Route path="/upload" element={<UploadReport />} />
-                )}
+                  <Route
+                    path="/clinics"
+                    element={
+                      <RequirePermission permission="clinic.view">
+                        <Clinics />
+                      </RequirePermission>
+                    }
+                  />
 
-                {/* ✅ Only Admins can access User Management */}
-                {user.role === UserRole.ADMIN && (
-                  <Route path="/users" element={<UserManagement />} />
-                )}
+                  <Route
+                    path="/audit"
+                    element={
+                      <RequirePermission permission="audit.view">
+                        <AuditLog />
+                      </RequirePermission>
+                    }
+                  />
 
-                {/* Fallback */}
-                <Route path="*" element={<Navigate to="/" />} />
-              </Routes>
-            </Layout>
+                  {/* Fallback */}
+                  <Route path="*" element={<Navigate to="/" />} />
+                </Routes>
+              </Layout>
+            </ErrorBoundary>
           ) : (
-            <Navigate to="/login" />
+            <RedirectToLogin />
           )
         }
       />
@@ -0,0 +1,63 @@
+import React from "react";
+
+export interface BulkItemResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+interface BulkResultSummaryProps {
+  /** e.g. "Approve", "Delete" */
+  action: string;
+  results: BulkItemResult[];
+  /** Items left out because the action did not apply to them. */
+  skipped?: number;
+  onDismiss: () => void;
+}
+
+/** Per-item outcome of a bulk operation; failures are listed individually. */
+const BulkResultSummary: React.FC<BulkResultSummaryProps> = ({
+  action,
+  results,
+  skipped = 0,
+  onDismiss,
+}) => {
+  const failed = results.filter((r) => !r.ok);
+  const succeeded = results.length - failed.length;
+
+  return (
+    <div
+      className={`rounded-md px-4 py-3 border ${
+        failed.length
+          ? "bg-red-50 text-red-800 border-red-200"
+          : "bg-green-50 text-green-800 border-green-200"
+      }`}
+    >
+      <div className="flex justify-between items-start">
+        <p className="font-semibold">
+          {action}: {succeeded} succeeded
+          {failed.length > 0 && `, ${failed.length} failed`}
+          {skipped > 0 && `, ${skipped} skipped (not applicable)`}.
+        </p>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="ml-4 text-xs underline opacity-70 hover:opacity-100"
+        >
+          Dismiss
+        </button>
+      </div>
+      {failed.length > 0 && (
+        <ul className="mt-2 ml-5 list-disc text-sm max-h-40 overflow-y-auto">
+          {failed.map((r) => (
+            <li key={r.id}>
+              <span className="font-medium">{r.id}</span>: {r.error || "Failed"}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default BulkResultSummary;
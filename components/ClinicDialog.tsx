@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import type { Clinic } from "../types";
+import { createClinic, updateClinic } from "../services/api";
+import type { ClinicInput } from "../services/api";
+import { errorMessage } from "../services/apiErrors";
+import { useToast } from "../context/ToastContext";
+import ClinicIdInput from "./ClinicIdInput";
+
+interface ClinicDialogProps {
+  /** Clinic to edit; omit to register a new one. */
+  clinic?: Clinic;
+  onClose: () => void;
+}
+
+const FIELDS: { key: keyof ClinicInput; label: string; type?: string; required?: boolean }[] = [
+  { key: "name", label: "Clinic name", required: true },
+  { key: "contactName", label: "Contact person" },
+  { key: "contactEmail", label: "Contact email", type: "email" },
+  { key: "phone", label: "Phone", type: "tel" },
+  { key: "address", label: "Address" },
+];
+
+/** Create or edit a clinic. The id is fixed once registered because users and reports point at it. */
+const ClinicDialog: React.FC<ClinicDialogProps> = ({ clinic, onClose }) => {
+  const toast = useToast();
+  const [id, setId] = useState("");
+  const [values, setValues] = useState<ClinicInput>({
+    name: clinic?.name ?? "",
+    contactName: clinic?.contactName ?? "",
+    contactEmail: clinic?.contactEmail ?? "",
+    phone: clinic?.phone ?? "",
+    address: clinic?.address ?? "",
+  });
+  const [saving, setSaving] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = Object.fromEntries(
+      FIELDS.map(({ key }) => [key, (values[key] ?? "").trim()])
+    ) as unknown as ClinicInput;
+
+    setSaving(true);
+    try {
+      if (clinic) {
+        const changes = Object.fromEntries(
+          FIELDS.filter(({ key }) => trimmed[key] !== (clinic[key] ?? "")).map(({ key }) => [key, trimmed[key]])
+        ) as Partial<ClinicInput>;
+        if (!Object.keys(changes).length) return onClose();
+        await updateClinic(clinic.id, changes);
+        toast.success(`Clinic ${trimmed.name} updated.`);
+      } else {
+        await createClinic(id, trimmed);
+        toast.success(`Clinic ${trimmed.name} (${id}) created.`);
+      }
+      onClose();
+    } catch (err) {
+      toast.error(errorMessage(err, clinic ? "Failed to update clinic." : "Failed to create clinic."));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-8 max-w-lg w-full" role="dialog" aria-modal="true" aria-labelledby="clinic-dialog-title">
+        <h2 id="clinic-dialog-title" className="text-2xl font-bold mb-1">
+          {clinic ? "Edit Clinic" : "New Clinic"}
+        </h2>
+        {clinic && <p className="mb-6 text-gray-600">{clinic.id}</p>}
+
+        <form onSubmit={onSubmit} className={`space-y-4 ${clinic ? "" : "mt-6"}`}>
+          {!clinic && <ClinicIdInput value={id} onChange={setId} />}
+
+          {FIELDS.map(({ key, label, type, required }) => (
+            <div key={key}>
+              <label htmlFor={`clinic-${key}`} className="block text-sm font-medium text-gray-700">
+                {label}
+              </label>
+              <input
+                id={`clinic-${key}`}
+                type={type ?? "text"}
+                value={values[key] ?? ""}
+                onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                required={required}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+              />
+            </div>
+          ))}
+
+          <div className="flex justify-end space-x-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark disabled:bg-gray-400"
+            >
+              {saving ? "Saving..." : clinic ? "Save changes" : "Create clinic"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ClinicDialog;
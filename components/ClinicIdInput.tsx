@@ -0,0 +1,31 @@
+import React from "react";
+
+const CLINIC_ID_HINT = "Clinic ID must match CLINIC_number (e.g., CLINIC_001)";
+
+/** ID field for registering a new clinic; upper-cases and strips spaces as you type. */
+const ClinicIdInput: React.FC<{ value: string; onChange: (value: string) => void }> = ({
+  value,
+  onChange,
+}) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700">
+      Clinic ID <span className="text-gray-500 text-xs">(format: CLINIC_001)</span>
+    </label>
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value.toUpperCase().replace(/\s+/g, ""))}
+      required
+      /* HTML pattern engine: use [0-9]+ (no ^$ anchors) */
+      pattern="CLINIC_[0-9]+"
+      title={CLINIC_ID_HINT}
+      onInvalid={(e) => (e.currentTarget as HTMLInputElement).setCustomValidity(CLINIC_ID_HINT)}
+      onInput={(e) => (e.currentTarget as HTMLInputElement).setCustomValidity("")}
+      autoComplete="off"
+      spellCheck={false}
+      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+    />
+  </div>
+);
+
+export default ClinicIdInput;
@@ -0,0 +1,57 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "../hooks/useQuery";
+import { getClinics, queryKeys } from "../services/api";
+
+interface ClinicSelectProps {
+  value: string;
+  onChange: (clinicId: string) => void;
+  /**
+   * The user's current clinic. It stays selectable even when archived so
+   * editing other fields doesn't force a move; other archived clinics are hidden.
+   */
+  currentId?: string;
+}
+
+/** Clinic picker for the create and edit user forms, backed by the clinic registry. */
+const ClinicSelect: React.FC<ClinicSelectProps> = ({ value, onChange, currentId }) => {
+  const { data, error, isLoading } = useQuery(queryKeys.clinics(), getClinics);
+  const options = (data ?? []).filter((c) => !c.archived || c.id === currentId);
+
+  return (
+    <div>
+      <label htmlFor="clinic-select" className="block text-sm font-medium text-gray-700">
+        Clinic
+      </label>
+      <select
+        id="clinic-select"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        required
+        disabled={isLoading || !options.length}
+        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary bg-white disabled:bg-gray-100"
+      >
+        <option value="" disabled>
+          {isLoading ? "Loading clinics..." : "Select a clinic"}
+        </option>
+        {options.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name} ({c.id}){c.archived ? " — archived" : ""}
+          </option>
+        ))}
+      </select>
+      {error && !data && <p className="mt-1 text-xs text-red-600">Could not load clinics.</p>}
+      {data && !options.length && (
+        <p className="mt-1 text-xs text-gray-500">
+          No active clinics.{" "}
+          <Link to="/clinics" className="text-primary hover:underline">
+            Add one first
+          </Link>
+          .
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ClinicSelect;
@@ -0,0 +1,32 @@
+import React from "react";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+
+interface ConfigErrorScreenProps {
+  issues: string[];
+}
+
+/** Shown instead of the app when startup configuration is missing or invalid. */
+const ConfigErrorScreen: React.FC<ConfigErrorScreenProps> = ({ issues }) => (
+  <div className="min-h-screen bg-secondary flex items-center justify-center p-4">
+    <div className="max-w-xl w-full bg-white rounded-2xl shadow-2xl p-8" role="alert">
+      <div className="flex items-center mb-4">
+        <ExclamationTriangleIcon className="h-8 w-8 text-danger mr-3" />
+        <h1 className="text-2xl font-bold text-gray-800">Configuration error</h1>
+      </div>
+      <p className="text-gray-600 mb-4">
+        MediSys could not start because its deployment settings are missing or malformed.
+        Please contact your administrator.
+      </p>
+      <ul className="list-disc pl-6 space-y-1 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-4">
+        {issues.map((issue) => (
+          <li key={issue}>{issue}</li>
+        ))}
+      </ul>
+      <p className="mt-4 text-xs text-gray-400">
+        Set the VITE_* variables at build time (see .env.example) or serve a config.json next to index.html.
+      </p>
+    </div>
+  </div>
+);
+
+export default ConfigErrorScreen;
@@ -0,0 +1,101 @@
+import React from "react";
+import type { CsvValidationResult } from "../services/csvValidation";
+import { REPORT_CSV_COLUMNS } from "../services/csvValidation";
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/solid";
+
+interface CsvPreviewProps {
+  fileName: string;
+  result: CsvValidationResult;
+  /** Rows rendered in the table; validation always covers the whole file. */
+  maxRows?: number;
+}
+
+const CsvPreview: React.FC<CsvPreviewProps> = ({ fileName, result, maxRows = 50 }) => {
+  const shown = result.rows.slice(0, maxRows);
+
+  return (
+    <div className="space-y-3">
+      {/* Summary */}
+      {result.isValid ? (
+        <div className="flex items-center text-sm text-green-800 bg-green-50 border border-green-200 rounded-md px-3 py-2">
+          <CheckCircleIcon className="h-5 w-5 mr-2" />
+          {fileName}: {result.rows.length} row(s) ready to upload.
+        </div>
+      ) : (
+        <div className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+          <div className="flex items-center font-semibold">
+            <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+            {fileName} cannot be uploaded yet.
+          </div>
+          <ul className="mt-1 ml-7 list-disc">
+            {result.fileErrors.map((e) => (
+              <li key={e}>{e}</li>
+            ))}
+            {result.invalidRowCount > 0 && (
+              <li>
+                {result.invalidRowCount} of {result.rows.length} row(s) have errors.
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {result.extraColumns.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Ignored column(s): {result.extraColumns.join(", ")}
+        </p>
+      )}
+
+      {/* Rows */}
+      {shown.length > 0 && (
+        <div className="overflow-auto max-h-80 border border-gray-200 rounded-md">
+          <table className="min-w-full text-xs divide-y divide-gray-200">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-2 py-2 text-left font-semibold text-gray-600">Line</th>
+                {REPORT_CSV_COLUMNS.map((c) => (
+                  <th key={c} className="px-2 py-2 text-left font-semibold text-gray-600">
+                    {c}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {shown.map((row) => (
+                <React.Fragment key={row.line}>
+                  <tr className={row.errors.length ? "bg-red-50" : "bg-white"}>
+                    <td className="px-2 py-1 text-gray-500">{row.line}</td>
+                    {REPORT_CSV_COLUMNS.map((c) => (
+                      <td key={c} className="px-2 py-1 whitespace-nowrap text-gray-700">
+                        {row.values[c] || "—"}
+                      </td>
+                    ))}
+                  </tr>
+                  {row.errors.length > 0 && (
+                    <tr className="bg-red-50">
+                      <td />
+                      <td colSpan={REPORT_CSV_COLUMNS.length} className="px-2 pb-2 text-red-700">
+                        {row.errors.join("; ")}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {result.rows.length > shown.length && (
+        <p className="text-xs text-gray-500">
+          Showing first {shown.length} of {result.rows.length} rows.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CsvPreview;
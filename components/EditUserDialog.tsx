@@ -0,0 +1,181 @@
+import React, { useState } from "react";
+import type { ManagedUser } from "../types";
+import { UserRole } from "../types";
+import { groupForRole } from "../services/permissions";
+import { resetUserPassword, setUserEnabled, updateUser } from "../services/api";
+import { errorMessage } from "../services/apiErrors";
+import { useToast } from "../context/ToastContext";
+import ClinicSelect from "./ClinicSelect";
+
+interface EditUserDialogProps {
+  user: ManagedUser;
+  onClose: () => void;
+}
+
+// Account actions that lock the user out, so they ask before running.
+type AccountAction = "disable" | "reset";
+
+/**
+ * Role and clinic changes are saved together; enable/disable and password
+ * reset act immediately because they are separate Cognito admin calls.
+ * Disabling and resetting are confirmed inside the dialog first.
+ */
+const EditUserDialog: React.FC<EditUserDialogProps> = ({ user, onClose }) => {
+  const toast = useToast();
+  const [role, setRole] = useState<UserRole>(user.role);
+  const [clinicId, setClinicId] = useState(user.clinicId ?? "");
+  const [busy, setBusy] = useState<"save" | "status" | "reset" | null>(null);
+  const [confirming, setConfirming] = useState<AccountAction | null>(null);
+
+  const label = user.email || user.username;
+
+  const onSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextClinicId = role === UserRole.CLINIC ? clinicId : null;
+    const changes = {
+      ...(role !== user.role ? { role: groupForRole(role) } : {}),
+      ...(nextClinicId !== (user.clinicId ?? null) ? { clinicId: nextClinicId } : {}),
+    };
+    if (!Object.keys(changes).length) return onClose();
+
+    setBusy("save");
+    try {
+      await updateUser(user.username, changes);
+      toast.success(`User ${label} updated.`);
+      onClose();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to update user."));
+      setBusy(null);
+    }
+  };
+
+  const onToggleEnabled = async () => {
+    setConfirming(null);
+    setBusy("status");
+    try {
+      await setUserEnabled(user.username, !user.enabled);
+      toast.success(`User ${label} ${user.enabled ? "disabled" : "enabled"}.`);
+      onClose();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to change account status."));
+      setBusy(null);
+    }
+  };
+
+  const onResetPassword = async () => {
+    setConfirming(null);
+    setBusy("reset");
+    try {
+      await resetUserPassword(user.username);
+      toast.success(`Password reset sent to ${label}.`);
+      onClose();
+    } catch (err) {
+      toast.error(errorMessage(err, "Failed to reset password."));
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-8 max-w-lg w-full" role="dialog" aria-modal="true" aria-labelledby="edit-user-title">
+        <h2 id="edit-user-title" className="text-2xl font-bold mb-1">Edit User</h2>
+        <p className="mb-6 text-gray-600">{label}</p>
+
+        <form onSubmit={onSave} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Role</label>
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as unknown as UserRole)}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary bg-white"
+            >
+              <option value={UserRole.CLINIC}>Clinic Staff</option>
+              <option value={UserRole.STAFF}>MediSys Staff</option>
+              <option value={UserRole.ADMIN}>MediSys Admin</option>
+            </select>
+            {role !== user.role && (
+              <p className="mt-1 text-xs text-gray-500">
+                Takes effect the next time the user signs in or their session refreshes.
+              </p>
+            )}
+          </div>
+
+          {role === UserRole.CLINIC && (
+            <ClinicSelect value={clinicId} onChange={setClinicId} currentId={user.clinicId} />
+          )}
+
+          <div className="border-t pt-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Account</h3>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={() => (user.enabled ? setConfirming("disable") : onToggleEnabled())}
+                disabled={busy !== null || confirming !== null}
+                className={`font-semibold py-2 px-3 rounded-lg border disabled:opacity-50 ${
+                  user.enabled
+                    ? "text-red-600 border-red-300 hover:bg-red-50"
+                    : "text-green-700 border-green-300 hover:bg-green-50"
+                }`}
+              >
+                {busy === "status" ? "Saving..." : user.enabled ? "Disable account" : "Enable account"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setConfirming("reset")}
+                disabled={busy !== null || confirming !== null || !user.enabled}
+                className="font-semibold py-2 px-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {busy === "reset" ? "Sending..." : "Reset password"}
+              </button>
+            </div>
+
+            {confirming && (
+              <div role="alertdialog" aria-labelledby="confirm-account-action" className="mt-3 rounded-md border border-red-200 bg-red-50 p-3">
+                <p id="confirm-account-action" className="text-sm text-red-800">
+                  {confirming === "disable"
+                    ? `Disable ${label}? They are signed out and can't sign in until the account is enabled again.`
+                    : `Send a password reset to ${label}? Their current password stops working.`}
+                </p>
+                <div className="mt-2 flex gap-3">
+                  <button
+                    type="button"
+                    onClick={confirming === "disable" ? onToggleEnabled : onResetPassword}
+                    className="font-semibold py-1 px-3 rounded-lg bg-red-600 text-white hover:bg-red-700"
+                  >
+                    {confirming === "disable" ? "Disable account" : "Send reset"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirming(null)}
+                    className="font-semibold py-1 px-3 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+                  >
+                    Keep as is
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy !== null}
+              className="bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark disabled:bg-gray-400"
+            >
+              {busy === "save" ? "Saving..." : "Save changes"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditUserDialog;
@@ -0,0 +1,50 @@
+import React, { ErrorInfo, ReactNode } from "react";
+import ErrorState from "./ErrorState";
+
+interface ErrorBoundaryProps {
+  children: ReactNode;
+  /** Clear the error when this changes (e.g. the route), so navigating away recovers. */
+  resetKey?: unknown;
+}
+
+interface ErrorBoundaryState {
+  error: unknown;
+  hasError: boolean;
+}
+
+/** Catches render errors below it and shows an ErrorState instead of a blank page. */
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  // Spelled out because react ships without bundled typings in this project.
+  declare props: Readonly<ErrorBoundaryProps>;
+  declare setState: (state: ErrorBoundaryState) => void;
+  state: ErrorBoundaryState = { error: null, hasError: false };
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return { error, hasError: true };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    console.error("Unhandled UI error:", error, info.componentStack);
+  }
+
+  componentDidUpdate(prev: ErrorBoundaryProps) {
+    if (this.state.hasError && prev.resetKey !== this.props.resetKey) {
+      this.setState({ error: null, hasError: false });
+    }
+  }
+
+  render() {
+    if (!this.state.hasError) return this.props.children;
+    return (
+      <div className="p-4 md:p-8">
+        <ErrorState
+          error={this.state.error}
+          fallback="An unexpected error occurred."
+          onRetry={() => this.setState({ error: null, hasError: false })}
+        />
+      </div>
+    );
+  }
+}
+
+export default ErrorBoundary;
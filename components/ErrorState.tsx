@@ -0,0 +1,70 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import {
+  ExclamationTriangleIcon,
+  MagnifyingGlassIcon,
+  ShieldExclamationIcon,
+  WifiIcon,
+} from "@heroicons/react/24/outline";
+import { errorMessage, isApiError } from "../services/apiErrors";
+
+interface ErrorStateProps {
+  error: unknown;
+  /** Shown when the error has no message of its own. */
+  fallback?: string;
+  onRetry?: () => void;
+}
+
+/**
+ * Full-panel rendering of a load failure, chosen by error kind: a permission
+ * screen for 403, not-found for 404, an offline hint for network errors and
+ * the message (plus request ID) for everything else.
+ */
+const ErrorState: React.FC<ErrorStateProps> = ({ error, fallback, onRetry }) => {
+  const kind = isApiError(error) ? error.kind : "unknown";
+  const requestId = isApiError(error) ? error.requestId : undefined;
+
+  const { Icon, title, tone } =
+    kind === "forbidden"
+      ? { Icon: ShieldExclamationIcon, title: "You don't have access to this", tone: "text-warning" }
+      : kind === "notFound"
+      ? { Icon: MagnifyingGlassIcon, title: "Not found", tone: "text-gray-400" }
+      : kind === "network"
+      ? { Icon: WifiIcon, title: "You appear to be offline", tone: "text-gray-400" }
+      : { Icon: ExclamationTriangleIcon, title: "Something went wrong", tone: "text-danger" };
+
+  // Retrying a permission or not-found error just repeats it.
+  const canRetry = onRetry && kind !== "forbidden" && kind !== "notFound";
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-10 text-center max-w-xl mx-auto" role="alert">
+      <Icon className={`h-12 w-12 mx-auto mb-4 ${tone}`} />
+      <h2 className="text-xl font-bold text-gray-800 mb-2">{title}</h2>
+      <p className="text-gray-600">{errorMessage(error, fallback)}</p>
+      {kind === "forbidden" && (
+        <p className="text-sm text-gray-500 mt-2">
+          If you think you should have access, ask a MediSys administrator to check your role.
+        </p>
+      )}
+      {requestId && <p className="text-xs text-gray-400 mt-4">Request ID: {requestId}</p>}
+      <div className="mt-6 flex justify-center space-x-4">
+        {canRetry && (
+          <button
+            onClick={onRetry}
+            className="bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark"
+          >
+            Try again
+          </button>
+        )}
+        <Link
+          to="/dashboard"
+          className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+        >
+          Back to dashboard
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorState;
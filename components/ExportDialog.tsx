@@ -0,0 +1,124 @@
+import React, { useState } from "react";
+import type { Report } from "../types";
+import type { ExportColumnKey, ExportFormat } from "../services/exportReports";
+import { EXPORT_COLUMNS, exportReports } from "../services/exportReports";
+
+interface ExportDialogProps {
+  open: boolean;
+  /** Rows to export — the caller passes the currently filtered set. */
+  reports: Report[];
+  /** Columns pre-ticked when the dialog opens. */
+  defaultColumns?: ExportColumnKey[];
+  onClose: () => void;
+}
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  reports,
+  defaultColumns = EXPORT_COLUMNS.map((c) => c.key),
+  onClose,
+}) => {
+  const [columns, setColumns] = useState<ExportColumnKey[]>(defaultColumns);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [deidentify, setDeidentify] = useState(false);
+
+  if (!open) return null;
+
+  const toggle = (key: ExportColumnKey) =>
+    setColumns((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!columns.length) return;
+    exportReports(reports, { columns, format, deidentify });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-8 max-w-lg w-full" role="dialog" aria-modal="true">
+        <h2 className="text-2xl font-bold mb-2">Export Reports</h2>
+        <p className="mb-6 text-gray-600">
+          {reports.length} report(s) matching the current filters will be exported.
+        </p>
+
+        <form onSubmit={onSubmit} className="space-y-6">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-2">Format</legend>
+            <div className="flex space-x-6 text-sm">
+              <label className="flex items-center">
+                <input type="radio" checked={format === "csv"} onChange={() => setFormat("csv")} className="mr-2" />
+                CSV
+              </label>
+              <label className="flex items-center">
+                <input type="radio" checked={format === "xlsx"} onChange={() => setFormat("xlsx")} className="mr-2" />
+                Excel (.xlsx)
+              </label>
+            </div>
+          </fieldset>
+
+          <fieldset>
+            <div className="flex justify-between items-center mb-2">
+              <legend className="text-sm font-medium text-gray-700">Columns</legend>
+              <div className="space-x-3 text-xs">
+                <button type="button" onClick={() => setColumns(EXPORT_COLUMNS.map((c) => c.key))} className="text-primary underline">
+                  All
+                </button>
+                <button type="button" onClick={() => setColumns([])} className="text-primary underline">
+                  None
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {EXPORT_COLUMNS.map((c) => (
+                <label key={c.key} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(c.key)}
+                    onChange={() => toggle(c.key)}
+                    className="mr-2"
+                  />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <label className="flex items-start text-sm">
+            <input
+              type="checkbox"
+              checked={deidentify}
+              onChange={(e) => setDeidentify(e.target.checked)}
+              className="mr-2 mt-1"
+            />
+            <span>
+              De-identify for research sharing
+              <span className="block text-xs text-gray-500">
+                Patient IDs are left out, names are redacted and dates of birth reduced to the year.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex justify-end space-x-4 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!columns.length || !reports.length}
+              className="bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark disabled:bg-gray-400"
+            >
+              Export
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,74 @@
+import React, { useRef, useState } from "react";
+import { ArrowUpTrayIcon } from "@heroicons/react/24/outline";
+
+interface FileDropZoneProps {
+  onFiles: (files: File[]) => void;
+  accept?: string;
+  multiple?: boolean;
+  disabled?: boolean;
+  label?: string;
+}
+
+const FileDropZone: React.FC<FileDropZoneProps> = ({
+  onFiles,
+  accept = ".csv,text/csv",
+  multiple = true,
+  disabled = false,
+  label = "Drag and drop CSV files here, or click to browse",
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const emit = (list: FileList | null) => {
+    if (!list || !list.length || disabled) return;
+    onFiles(Array.from(list));
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      aria-disabled={disabled}
+      onClick={() => !disabled && inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if ((e.key === "Enter" || e.key === " ") && !disabled) {
+          e.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setDragging(true);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setDragging(false);
+        emit(e.dataTransfer.files);
+      }}
+      className={`flex flex-col items-center justify-center border-2 border-dashed rounded-xl p-10 text-center transition-colors ${
+        disabled
+          ? "border-gray-200 bg-gray-50 text-gray-400 cursor-not-allowed"
+          : dragging
+          ? "border-primary bg-secondary text-primary cursor-copy"
+          : "border-gray-300 text-gray-500 hover:border-primary hover:text-primary cursor-pointer"
+      }`}
+    >
+      <ArrowUpTrayIcon className="h-10 w-10 mb-3" />
+      <p className="text-sm font-medium">{label}</p>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        className="hidden"
+        onChange={(e) => {
+          emit(e.target.files);
+          e.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
+
+export default FileDropZone;
@@ -1,10 +1,15 @@
-import React from "react";
+import React, { useCallback, useState } from "react";
 import { useAuth } from "../context/AuthContext";
+import { useToast } from "../context/ToastContext";
 import { UserRole } from "../types";
-import { UserIcon, ArrowRightOnRectangleIcon } from "@heroicons/react/24/solid";
+import { UserIcon, ArrowRightOnRectangleIcon, BellIcon } from "@heroicons/react/24/solid";
+import NotificationDrawer from "./NotificationDrawer";
 
 const Header: React.FC = () => {
   const { user, logout } = useAuth();
+  const { unreadCount } = useToast();
+  const [showNotifications, setShowNotifications] = useState(false);
+  const closeNotifications = useCallback(() => setShowNotifications(false), []);
 
   if (!user) return null;
 
@@ -18,6 +23,18 @@ const Header: React.FC = () => {
   return (
     <header className="bg-white shadow-md p-4 flex justify-end items-center">
       <div className="flex items-center space-x-4">
+        <button
+          onClick={() => setShowNotifications(true)}
+          className="relative p-2 text-gray-600 hover:text-primary transition-colors"
+          aria-label={unreadCount ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <BellIcon className="h-6 w-6" />
+          {unreadCount > 0 && (
+            <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 rounded-full bg-danger text-white text-xs font-bold flex items-center justify-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </button>
         <div className="text-right">
           {isClinic ? (
             <>
@@ -49,6 +66,7 @@ const Header: React.FC = () => {
           <ArrowRightOnRectangleIcon className="h-6 w-6" />
         </button>
       </div>
+      <NotificationDrawer open={showNotifications} onClose={closeNotifications} />
     </header>
   );
 };
@@ -0,0 +1,90 @@
+import React, { useEffect } from "react";
+import { XMarkIcon, BellIcon } from "@heroicons/react/24/outline";
+import { useToast } from "../context/ToastContext";
+import { SEVERITY_STYLES } from "./ToastStack";
+
+interface NotificationDrawerProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Slide-over listing this session's notifications, newest first. Actions are
+ * not repeated here: an "Undo" from minutes ago would no longer apply.
+ */
+const NotificationDrawer: React.FC<NotificationDrawerProps> = ({ open, onClose }) => {
+  const { history, markHistoryRead, clearHistory } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    markHistoryRead();
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open, history.length, markHistoryRead, onClose]);
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-30" onClick={onClose} aria-hidden="true" />
+      <aside
+        className="relative bg-white w-full max-w-sm h-full shadow-xl flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="notification-drawer-title"
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 id="notification-drawer-title" className="text-xl font-bold text-gray-800">
+            Notifications
+          </h2>
+          <div className="flex items-center space-x-3">
+            {history.length > 0 && (
+              <button type="button" onClick={clearHistory} className="text-sm text-primary underline">
+                Clear all
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              autoFocus
+              className="text-gray-500 hover:text-gray-800"
+              aria-label="Close notifications"
+            >
+              <XMarkIcon className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        {history.length === 0 ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-gray-500 p-6">
+            <BellIcon className="h-10 w-10 mb-2 text-gray-300" />
+            <p>No notifications yet.</p>
+          </div>
+        ) : (
+          <ul className="flex-1 overflow-y-auto divide-y divide-gray-100">
+            {history.map((t) => {
+              const { Icon, icon } = SEVERITY_STYLES[t.severity];
+              return (
+                <li key={t.id} className="px-6 py-4 flex items-start gap-3 text-sm">
+                  <Icon className={`h-5 w-5 flex-shrink-0 ${icon}`} />
+                  <div className="min-w-0">
+                    {t.title && <p className="font-semibold text-gray-800">{t.title}</p>}
+                    <p className="text-gray-700 break-words">{t.message}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(t.createdAt).toLocaleTimeString()}
+                    </p>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default NotificationDrawer;
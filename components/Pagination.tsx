@@ -0,0 +1,81 @@
+import React from "react";
+import { ChevronLeftIcon, ChevronRightIcon } from "@heroicons/react/24/outline";
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  pageSizeOptions: number[];
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (size: number) => void;
+  /** Label for the `0` page-size option; omit to hide it. */
+  allLabel?: string;
+}
+
+const Pagination: React.FC<PaginationProps> = ({
+  page,
+  pageSize,
+  total,
+  pageSizeOptions,
+  onPageChange,
+  onPageSizeChange,
+  allLabel,
+}) => {
+  const pageCount = pageSize > 0 ? Math.max(1, Math.ceil(total / pageSize)) : 1;
+  const current = Math.min(page, pageCount);
+  const from = total === 0 ? 0 : pageSize > 0 ? (current - 1) * pageSize + 1 : 1;
+  const to = pageSize > 0 ? Math.min(total, current * pageSize) : total;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 px-6 py-3 text-sm text-gray-600 border-t border-gray-200">
+      <div className="flex items-center">
+        <label className="flex items-center">
+          Rows per page
+          <select
+            value={pageSize}
+            onChange={(e) => onPageSizeChange(Number(e.target.value))}
+            className="ml-2 px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            {pageSizeOptions.map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+            {allLabel && <option value={0}>{allLabel}</option>}
+          </select>
+        </label>
+        <span className="ml-4">
+          {from}–{to} of {total}
+        </span>
+      </div>
+
+      {pageSize > 0 && (
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => onPageChange(current - 1)}
+            disabled={current <= 1}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Previous page"
+          >
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <span>
+            Page {current} of {pageCount}
+          </span>
+          <button
+            type="button"
+            onClick={() => onPageChange(current + 1)}
+            disabled={current >= pageCount}
+            className="p-1 rounded hover:bg-gray-100 disabled:opacity-40"
+            aria-label="Next page"
+          >
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,161 @@
+import React, { useMemo } from "react";
+import type { Report } from "../types";
+import { ReportStatus } from "../types";
+import type { ReportFilters } from "../services/reportFilters";
+import { distinctValues } from "../services/reportFilters";
+import { countActiveFilters } from "../services/tableQuery";
+import { reportStatusLabel } from "../services/reportLifecycle";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+
+interface ReportFilterBarProps {
+  reports: Report[];
+  filters: ReportFilters;
+  onChange: <K extends keyof ReportFilters>(key: K, value: ReportFilters[K]) => void;
+  onReset: () => void;
+  showStatus?: boolean;
+  showClinic?: boolean;
+  /** Rows left after filtering, shown next to the reset button. */
+  resultCount: number;
+}
+
+const inputCls =
+  "px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary focus:border-primary bg-white";
+
+const Select: React.FC<{
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (v: string) => void;
+  /** Display text for an option; defaults to the value itself. */
+  optionLabel?: (v: string) => string;
+}> = ({ label, value, options, onChange, optionLabel = (o) => o }) => (
+  <label className="flex flex-col text-xs font-medium text-gray-600">
+    {label}
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={`mt-1 ${inputCls}`}>
+      <option value="">All</option>
+      {options.map((o) => (
+        <option key={o} value={o}>
+          {optionLabel(o)}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+const DateRange: React.FC<{
+  label: string;
+  from: string;
+  to: string;
+  onFrom: (v: string) => void;
+  onTo: (v: string) => void;
+}> = ({ label, from, to, onFrom, onTo }) => (
+  <fieldset className="flex flex-col text-xs font-medium text-gray-600">
+    <legend>{label}</legend>
+    <div className="mt-1 flex items-center space-x-1">
+      <input type="date" value={from} onChange={(e) => onFrom(e.target.value)} className={inputCls} aria-label={`${label} from`} />
+      <span className="text-gray-400">–</span>
+      <input type="date" value={to} onChange={(e) => onTo(e.target.value)} className={inputCls} aria-label={`${label} to`} />
+    </div>
+  </fieldset>
+);
+
+const ReportFilterBar: React.FC<ReportFilterBarProps> = ({
+  reports,
+  filters,
+  onChange,
+  onReset,
+  showStatus = true,
+  showClinic = true,
+  resultCount,
+}) => {
+  // Dropdown options come from the loaded data so they always match what exists.
+  const options = useMemo(
+    () => ({
+      diagnosticType: distinctValues(reports, "diagnosticType"),
+      clinic: distinctValues(reports, "clinicName"),
+      gender: distinctValues(reports, "patientGender"),
+      bloodType: distinctValues(reports, "bloodType"),
+    }),
+    [reports]
+  );
+  const active = countActiveFilters(filters);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-[16rem]">
+          <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filters.q}
+            onChange={(e) => onChange("q", e.target.value)}
+            placeholder="Search patient name or ID"
+            className={`w-full pl-10 ${inputCls}`}
+          />
+        </div>
+        <span className="text-sm text-gray-500">
+          {resultCount} of {reports.length} report(s)
+        </span>
+        {active > 0 && (
+          <button type="button" onClick={onReset} className="text-sm text-primary underline">
+            Clear filters ({active})
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {showStatus && (
+          <Select
+            label="Status"
+            value={filters.status}
+            options={Object.values(ReportStatus)}
+            optionLabel={reportStatusLabel}
+            onChange={(v) => onChange("status", v)}
+          />
+        )}
+        <Select
+          label="Diagnostic Type"
+          value={filters.diagnosticType}
+          options={options.diagnosticType}
+          onChange={(v) => onChange("diagnosticType", v)}
+        />
+        {showClinic && (
+          <Select
+            label="Clinic"
+            value={filters.clinic}
+            options={options.clinic}
+            onChange={(v) => onChange("clinic", v)}
+          />
+        )}
+        <Select
+          label="Gender"
+          value={filters.gender}
+          options={options.gender}
+          onChange={(v) => onChange("gender", v)}
+        />
+        <Select
+          label="Blood Type"
+          value={filters.bloodType}
+          options={options.bloodType}
+          onChange={(v) => onChange("bloodType", v)}
+        />
+        <DateRange
+          label="Submitted"
+          from={filters.submittedFrom}
+          to={filters.submittedTo}
+          onFrom={(v) => onChange("submittedFrom", v)}
+          onTo={(v) => onChange("submittedTo", v)}
+        />
+        <DateRange
+          label="Date of Birth"
+          from={filters.dobFrom}
+          to={filters.dobTo}
+          onFrom={(v) => onChange("dobFrom", v)}
+          onTo={(v) => onChange("dobTo", v)}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReportFilterBar;
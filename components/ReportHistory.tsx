@@ -0,0 +1,59 @@
+import React from "react";
+import { useQuery } from "../hooks/useQuery";
+import { getReportHistory, queryKeys } from "../services/api";
+import { auditActionLabel } from "../services/auditLog";
+import { reportStatusLabel } from "../services/reportLifecycle";
+import { isApiError } from "../services/apiErrors";
+
+function formatDateTime(value: string): string {
+  const dt = new Date(value);
+  return isNaN(dt.getTime()) ? value : dt.toLocaleString();
+}
+
+/** Audit entries for one report, newest first. Hidden when the backend keeps no history (404). */
+const ReportHistory: React.FC<{ reportId: string }> = ({ reportId }) => {
+  const { data, error, isLoading, refetch } = useQuery(queryKeys.reportHistory(reportId), () =>
+    getReportHistory(reportId)
+  );
+
+  if (!data && isApiError(error) && error.kind === "notFound") return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+      <h2 className="text-xl font-semibold text-gray-700">History</h2>
+      {isLoading ? (
+        <p className="text-gray-500">Loading history...</p>
+      ) : !data ? (
+        <p className="text-red-600">
+          Could not load the history.{" "}
+          <button type="button" onClick={refetch} className="underline">
+            Retry
+          </button>
+        </p>
+      ) : data.length === 0 ? (
+        <p className="text-gray-400">Nothing has been recorded for this report.</p>
+      ) : (
+        <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+          {data.map((e) => (
+            <li key={e.id} className="relative pl-6">
+              <span className="absolute -left-[7px] top-1.5 h-3 w-3 rounded-full bg-primary" aria-hidden="true" />
+              <p className="text-gray-900">
+                <span className="font-semibold">{auditActionLabel(e)}</span> by {e.actorName}
+                {e.statusBefore && e.statusAfter && (
+                  <span className="text-gray-500">
+                    {" "}
+                    ({reportStatusLabel(e.statusBefore)} → {reportStatusLabel(e.statusAfter)})
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-gray-500">{formatDateTime(e.timestamp)}</p>
+              {e.note && <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{e.note}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ReportHistory;
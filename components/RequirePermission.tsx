@@ -0,0 +1,30 @@
+import React, { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { usePermission } from "../hooks/usePermission";
+import type { Permission } from "../services/permissions";
+import { ForbiddenError } from "../services/apiErrors";
+import ErrorState from "./ErrorState";
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+  /** Rendered when the permission is missing; defaults to the permission screen. */
+  fallback?: ReactNode;
+  /** Redirect instead of rendering a fallback. */
+  redirectTo?: string;
+}
+
+/** Route guard: renders children only when the user holds `permission`. */
+const RequirePermission: React.FC<RequirePermissionProps> = ({
+  permission,
+  children,
+  fallback,
+  redirectTo,
+}) => {
+  const allowed = usePermission(permission);
+  if (allowed) return <>{children}</>;
+  if (redirectTo) return <Navigate to={redirectTo} replace />;
+  return <>{fallback ?? <ErrorState error={new ForbiddenError("This page is not available for your role.")} />}</>;
+};
+
+export default RequirePermission;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import { ReportStatus } from "../types";
+import { REJECTION_REASONS, OTHER_REASON, composeReviewNote } from "../services/reviewNotes";
+
+interface ReviewDialogProps {
+  /** Approved or Rejected; the dialog is hidden while this is null. */
+  decision: ReportStatus.APPROVED | ReportStatus.REJECTED | null;
+  /** Shown in the title, e.g. "Report R-12" or "12 reports". */
+  subject: string;
+  reasons?: readonly string[];
+  onConfirm: (note: string | undefined) => Promise<void> | void;
+  onClose: () => void;
+}
+
+/**
+ * Confirms an approve/reject decision. Rejection requires a reason category
+ * (plus free text for "Other"); approval takes an optional note.
+ */
+const ReviewDialog: React.FC<ReviewDialogProps> = ({
+  decision,
+  subject,
+  reasons = REJECTION_REASONS,
+  onConfirm,
+  onClose,
+}) => {
+  const [reason, setReason] = useState<string>("");
+  const [text, setText] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReason("");
+    setText("");
+    setSubmitting(false);
+  }, [decision, subject]);
+
+  if (!decision) return null;
+
+  const isReject = decision === ReportStatus.REJECTED;
+  const needsText = isReject && reason === OTHER_REASON;
+  const canSubmit = !submitting && (!isReject || (!!reason && (!needsText || !!text.trim())));
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    setSubmitting(true);
+    try {
+      await onConfirm(composeReviewNote(isReject ? reason : null, text));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-8 max-w-lg w-full" role="dialog" aria-modal="true">
+        <h2 className="text-2xl font-bold mb-2">
+          {isReject ? "Reject" : "Approve"} {subject}
+        </h2>
+        <p className="mb-6 text-gray-600">
+          {isReject
+            ? "The clinic will see this reason so they know what to fix."
+            : "Optionally leave a note for the clinic."}
+        </p>
+
+        <form onSubmit={onSubmit} className="space-y-4">
+          {isReject && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Reason</label>
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary bg-white"
+              >
+                <option value="" disabled>
+                  Select a reason…
+                </option>
+                {reasons.map((r) => (
+                  <option key={r} value={r}>
+                    {r}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              {needsText ? "Details" : "Note"}{" "}
+              {!needsText && <span className="text-gray-500 text-xs">(optional)</span>}
+            </label>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={4}
+              required={needsText}
+              maxLength={1000}
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-4 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className={`text-white font-bold py-2 px-4 rounded-lg disabled:bg-gray-400 ${
+                isReject ? "bg-danger hover:opacity-90" : "bg-primary hover:bg-primary-dark"
+              }`}
+            >
+              {submitting ? "Saving..." : isReject ? "Reject" : "Approve"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewDialog;
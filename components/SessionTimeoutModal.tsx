@@ -0,0 +1,83 @@
+import React from "react";
+import { useLocation } from "react-router-dom";
+import { ClockIcon } from "@heroicons/react/24/outline";
+import { useAuth } from "../context/AuthContext";
+import { useSessionTimeout } from "../hooks/useSessionTimeout";
+import { saveReturnPath } from "../services/sessionTimeout";
+import { getConfig } from "../services/config";
+
+function formatCountdown(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return m ? `${m}:${String(s).padStart(2, "0")}` : `${s}s`;
+}
+
+/**
+ * Mounted once for signed-in users. Warns before the session ends and signs
+ * out via `logout`, remembering the current route for after re-login.
+ */
+const SessionTimeoutModal: React.FC = () => {
+  const { logout } = useAuth();
+  const location = useLocation();
+
+  const endSession = () => {
+    saveReturnPath(location.pathname + location.search);
+    logout();
+  };
+
+  const { session } = getConfig();
+  const { warning, reason, secondsLeft, staySignedIn } = useSessionTimeout({
+    idleTimeoutMs: session.idleTimeoutMinutes * 60 * 1000,
+    warningMs: session.warningSeconds * 1000,
+    onExpire: endSession,
+  });
+
+  if (!warning) return null;
+
+  const isIdle = reason === "idle";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        className="bg-white rounded-lg p-8 max-w-md w-full"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-timeout-title"
+        aria-describedby="session-timeout-desc"
+      >
+        <div className="flex items-center mb-4">
+          <ClockIcon className="h-8 w-8 text-yellow-500 mr-3" />
+          <h2 id="session-timeout-title" className="text-2xl font-bold">
+            {isIdle ? "Stay signed in?" : "Session ending"}
+          </h2>
+        </div>
+        <p id="session-timeout-desc" className="mb-6 text-gray-600">
+          {isIdle
+            ? "You have been inactive for a while. For patient privacy you will be signed out in "
+            : "Your sign-in is about to expire. You will be signed out in "}
+          <span className="font-semibold text-gray-800" aria-live="polite">
+            {formatCountdown(secondsLeft)}
+          </span>
+          . You'll return to this page after signing back in.
+        </p>
+        <div className="flex justify-end space-x-4">
+          <button
+            onClick={endSession}
+            className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+          >
+            Sign out now
+          </button>
+          <button
+            onClick={isIdle ? staySignedIn : endSession}
+            autoFocus
+            className="bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark"
+          >
+            {isIdle ? "Stay signed in" : "Sign in again"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeoutModal;
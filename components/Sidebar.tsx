@@ -1,18 +1,25 @@
 import React from "react";
 import { NavLink } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
-import { UserRole } from "../types";
+import { usePermission } from "../hooks/usePermission";
 import {
   ChartBarIcon,
   DocumentTextIcon,
   UsersIcon,
+  BuildingOffice2Icon,
+  ClipboardDocumentListIcon,
   BeakerIcon,
   ArrowRightOnRectangleIcon,
   ArrowUpOnSquareIcon,
 } from "@heroicons/react/24/solid";
 
 const Sidebar: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { logout } = useAuth();
+  const canUpload = usePermission("report.upload");
+  const canReadOwnOnly = usePermission("report.read.own");
+  const canManageUsers = usePermission("user.view");
+  const canViewClinics = usePermission("clinic.view");
+  const canViewAudit = usePermission("audit.view");
 
   const navLinkClasses = ({ isActive }: { isActive: boolean }) =>
     `flex items-center px-4 py-3 text-lg font-medium transition-colors duration-200 transform rounded-lg ${
@@ -34,30 +41,38 @@ const Sidebar: React.FC = () => {
           Dashboard
         </NavLink>
 
-        {user?.role === UserRole.CLINIC ? (
-          <>
-            <NavLink to="/upload" className={navLinkClasses}>
-              <ArrowUpOnSquareIcon className="h-6 w-6 mr-3" />
-              Upload Report
-            </NavLink>
-            <NavLink to="/reports" className={navLinkClasses}>
-              <DocumentTextIcon className="h-6 w-6 mr-3" />
-              My Report History
-            </NavLink>
-          </>
-        ) : (
-          <NavLink to="/reports" className={navLinkClasses}>
-            <DocumentTextIcon className="h-6 w-6 mr-3" />
-            Reports
+        {canUpload && (
+          <NavLink to="/upload" className={navLinkClasses}>
+            <ArrowUpOnSquareIcon className="h-6 w-6 mr-3" />
+            Upload Report
           </NavLink>
         )}
 
-        {user?.role === UserRole.ADMIN && (
+        <NavLink to="/reports" className={navLinkClasses}>
+          <DocumentTextIcon className="h-6 w-6 mr-3" />
+          {canReadOwnOnly ? "My Report History" : "Reports"}
+        </NavLink>
+
+        {canManageUsers && (
           <NavLink to="/users" className={navLinkClasses}>
             <UsersIcon className="h-6 w-6 mr-3" />
             User Management
           </NavLink>
         )}
+
+        {canViewClinics && (
+          <NavLink to="/clinics" className={navLinkClasses}>
+            <BuildingOffice2Icon className="h-6 w-6 mr-3" />
+            Clinics
+          </NavLink>
+        )}
+
+        {canViewAudit && (
+          <NavLink to="/audit" className={navLinkClasses}>
+            <ClipboardDocumentListIcon className="h-6 w-6 mr-3" />
+            Audit Log
+          </NavLink>
+        )}
       </nav>
 
       <div className="px-2 py-4 border-t border-primary-dark">
@@ -0,0 +1,40 @@
+import React from "react";
+import { ChevronDownIcon, ChevronUpIcon, ChevronUpDownIcon } from "@heroicons/react/24/outline";
+
+interface SortableHeaderProps<K extends string> {
+  label: string;
+  sortKey: K;
+  active: { key: K; dir: "asc" | "desc" };
+  onSort: (key: K) => void;
+  className?: string;
+}
+
+/** Table header cell that toggles sorting on click and exposes `aria-sort`. */
+function SortableHeader<K extends string>({
+  label,
+  sortKey,
+  active,
+  onSort,
+  className = "px-6 py-3",
+}: SortableHeaderProps<K>) {
+  const isActive = active.key === sortKey;
+  const Icon = !isActive ? ChevronUpDownIcon : active.dir === "asc" ? ChevronUpIcon : ChevronDownIcon;
+
+  return (
+    <th
+      className={`${className} text-left font-semibold text-gray-600 uppercase tracking-wider`}
+      aria-sort={isActive ? (active.dir === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(sortKey)}
+        className="flex items-center uppercase tracking-wider hover:text-gray-900"
+      >
+        {label}
+        <Icon className={`h-4 w-4 ml-1 ${isActive ? "text-gray-900" : "text-gray-400"}`} />
+      </button>
+    </th>
+  );
+}
+
+export default SortableHeader;
@@ -0,0 +1,31 @@
+import React from "react";
+import { ReportStatus } from "../types";
+import { reportStatusLabel } from "../services/reportLifecycle";
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  [ReportStatus.UPLOADED]: "text-slate-800 bg-slate-200",
+  [ReportStatus.PROCESSING]: "text-blue-800 bg-blue-200",
+  [ReportStatus.PROCESSING_FAILED]: "text-orange-800 bg-orange-200",
+  [ReportStatus.PENDING]: "text-yellow-800 bg-yellow-200",
+  [ReportStatus.APPROVED]: "text-green-800 bg-green-200",
+  [ReportStatus.REJECTED]: "text-red-800 bg-red-200",
+  [ReportStatus.RESUBMITTED]: "text-purple-800 bg-purple-200",
+  [ReportStatus.ARCHIVED]: "text-gray-700 bg-gray-200",
+  [ReportStatus.UNKNOWN]: "text-gray-800 bg-gray-100 border border-dashed border-gray-400",
+};
+
+/* Consistent status badge for reports, shared by the table and detail views */
+const StatusBadge: React.FC<{ status: ReportStatus }> = ({ status }) => {
+  const known = status in STATUS_STYLES;
+  return (
+    <span
+      className={`px-2 py-1 text-xs font-semibold rounded-full whitespace-nowrap ${
+        known ? STATUS_STYLES[status] : "text-gray-800 bg-gray-200"
+      }`}
+    >
+      {known ? reportStatusLabel(status) : "Unknown"}
+    </span>
+  );
+};
+
+export default StatusBadge;
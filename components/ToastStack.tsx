@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  XCircleIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/outline";
+import type { Toast, ToastSeverity } from "../context/ToastContext";
+
+export const SEVERITY_STYLES: Record<
+  ToastSeverity,
+  { Icon: React.FC<{ className?: string }>; cls: string; icon: string }
+> = {
+  success: { Icon: CheckCircleIcon, cls: "bg-green-50 text-green-800 border-green-200", icon: "text-green-500" },
+  error: { Icon: XCircleIcon, cls: "bg-red-50 text-red-800 border-red-200", icon: "text-red-500" },
+  warning: { Icon: ExclamationTriangleIcon, cls: "bg-yellow-50 text-yellow-800 border-yellow-200", icon: "text-yellow-500" },
+  info: { Icon: InformationCircleIcon, cls: "bg-blue-50 text-blue-800 border-blue-200", icon: "text-blue-500" },
+};
+
+/** One toast. The countdown pauses while hovered or focused so it can't vanish mid-read. */
+const ToastItem: React.FC<{ toast: Toast; onDismiss: (id: string) => void }> = ({ toast, onDismiss }) => {
+  const [paused, setPaused] = useState(false);
+  const remaining = useRef(toast.durationMs);
+
+  useEffect(() => {
+    if (paused || toast.durationMs <= 0) return;
+    const startedAt = Date.now();
+    const t = setTimeout(() => onDismiss(toast.id), remaining.current);
+    return () => {
+      clearTimeout(t);
+      remaining.current -= Date.now() - startedAt;
+    };
+  }, [paused, toast.id, toast.durationMs, onDismiss]);
+
+  const { Icon, cls, icon } = SEVERITY_STYLES[toast.severity];
+
+  return (
+    <div
+      className={`pointer-events-auto w-80 rounded-lg border shadow-lg px-4 py-3 text-sm flex items-start gap-3 ${cls}`}
+      onMouseEnter={() => setPaused(true)}
+      onMouseLeave={() => setPaused(false)}
+      onFocus={() => setPaused(true)}
+      onBlur={() => setPaused(false)}
+    >
+      <Icon className={`h-5 w-5 flex-shrink-0 ${icon}`} />
+      <div className="flex-1 min-w-0">
+        {toast.title && <p className="font-semibold">{toast.title}</p>}
+        <p className="opacity-90 break-words">{toast.message}</p>
+        {toast.action && (
+          <button
+            type="button"
+            onClick={() => {
+              toast.action!.onClick();
+              onDismiss(toast.id);
+            }}
+            className="mt-2 font-semibold underline hover:no-underline"
+          >
+            {toast.action.label}
+          </button>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={() => onDismiss(toast.id)}
+        className="opacity-60 hover:opacity-100"
+        aria-label="Dismiss notification"
+      >
+        <XMarkIcon className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Bottom-right stack of visible toasts, newest at the bottom. Screen reader
+ * announcements come from the provider's live regions, not from here.
+ */
+const ToastStack: React.FC<{ toasts: Toast[]; onDismiss: (id: string) => void }> = ({
+  toasts,
+  onDismiss,
+}) => {
+  if (!toasts.length) return null;
+  return (
+    <section
+      aria-label="Notifications"
+      className="fixed bottom-4 right-4 z-50 flex flex-col items-end space-y-2 pointer-events-none"
+    >
+      {toasts.map((t) => (
+        <ToastItem key={t.id} toast={t} onDismiss={onDismiss} />
+      ))}
+    </section>
+  );
+};
+
+export default ToastStack;
@@ -0,0 +1,64 @@
+import React from "react";
+import type { ReportUploadState } from "../hooks/useReportUpload";
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const UploadProgress: React.FC<{ state: ReportUploadState; onCancel?: () => void }> = ({
+  state,
+  onCancel,
+}) => {
+  const busy = state.status === "uploading" || state.status === "retrying";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm text-gray-700">
+        <span className="truncate mr-4">{state.fileName}</span>
+        <span className="whitespace-nowrap">
+          {formatBytes(state.loaded)} / {formatBytes(state.total)} ({state.percent}%)
+        </span>
+      </div>
+      <div
+        className="w-full h-2 bg-gray-200 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={state.percent}
+      >
+        <div
+          className={`h-full transition-all ${
+            state.status === "error" || state.status === "cancelled" ? "bg-danger" : "bg-primary"
+          }`}
+          style={{ width: `${state.percent}%` }}
+        />
+      </div>
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>
+          {state.status === "retrying"
+            ? `Connection problem — retrying (attempt ${state.attempt})…`
+            : state.status === "cancelled"
+            ? "Upload cancelled."
+            : state.status === "success"
+            ? "Upload complete."
+            : busy
+            ? "Uploading…"
+            : ""}
+        </span>
+        {busy && onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-red-600 hover:text-red-700 font-semibold"
+          >
+            Cancel upload
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UploadProgress;
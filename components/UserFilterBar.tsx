@@ -0,0 +1,79 @@
+import React, { useMemo } from "react";
+import type { ManagedUser } from "../types";
+import { UserRole } from "../types";
+import type { UserFilters } from "../services/userFilters";
+import { countActiveFilters } from "../services/tableQuery";
+import { userClinicOptions } from "../services/userFilters";
+import { MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+
+interface UserFilterBarProps {
+  users: ManagedUser[];
+  filters: UserFilters;
+  onChange: <K extends keyof UserFilters>(key: K, value: UserFilters[K]) => void;
+  onReset: () => void;
+  /** Rows left after filtering, shown next to the reset button. */
+  resultCount: number;
+}
+
+const inputCls =
+  "px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary focus:border-primary bg-white";
+
+const UserFilterBar: React.FC<UserFilterBarProps> = ({ users, filters, onChange, onReset, resultCount }) => {
+  const clinics = useMemo(() => userClinicOptions(users), [users]);
+  const active = countActiveFilters(filters);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-4 flex flex-wrap items-end gap-4">
+      <div className="relative flex-1 min-w-[16rem]">
+        <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="search"
+          value={filters.q}
+          onChange={(e) => onChange("q", e.target.value)}
+          placeholder="Search name, email or clinic"
+          aria-label="Search users"
+          className={`w-full pl-10 ${inputCls}`}
+        />
+      </div>
+
+      <label className="flex flex-col text-xs font-medium text-gray-600">
+        Role
+        <select value={filters.role} onChange={(e) => onChange("role", e.target.value)} className={`mt-1 ${inputCls}`}>
+          <option value="">All</option>
+          {Object.values(UserRole).map((r) => (
+            <option key={r} value={r}>
+              {r}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs font-medium text-gray-600">
+        Clinic
+        <select
+          value={filters.clinic}
+          onChange={(e) => onChange("clinic", e.target.value)}
+          className={`mt-1 ${inputCls}`}
+        >
+          <option value="">All</option>
+          {clinics.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <span className="text-sm text-gray-500 py-2">
+        {resultCount} of {users.length} user(s)
+      </span>
+      {active > 0 && (
+        <button type="button" onClick={onReset} className="text-sm text-primary underline py-2">
+          Clear filters ({active})
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default UserFilterBar;
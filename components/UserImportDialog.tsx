@@ -0,0 +1,246 @@
+import React, { useState } from "react";
+import { ArrowDownTrayIcon } from "@heroicons/react/24/outline";
+import { createUser, getClinics, queryKeys } from "../services/api";
+import { errorMessage } from "../services/apiErrors";
+import { mapWithConcurrency } from "../services/concurrency";
+import { batchInvalidations } from "../services/queryCache";
+import {
+  downloadImportReport,
+  downloadUserCsvTemplate,
+  USER_CSV_COLUMNS,
+  validateUserCsvFile,
+} from "../services/userImport";
+import type { UserImportOutcome, UserImportRow, UserImportValidation } from "../services/userImport";
+import { useToast } from "../context/ToastContext";
+import { useQuery } from "../hooks/useQuery";
+import FileDropZone from "./FileDropZone";
+import BulkResultSummary from "./BulkResultSummary";
+
+// Cognito AdminCreateUser is rate limited per user pool; keep bursts small.
+const IMPORT_CONCURRENCY = 3;
+
+interface UserImportDialogProps {
+  /** Lower-cased emails of accounts that already exist. */
+  existingEmails: ReadonlySet<string>;
+  onClose: () => void;
+}
+
+/**
+ * Pick a CSV, review the validated rows, then create the valid ones. Invalid
+ * rows are never sent; they show up as "skipped" in the downloadable report.
+ */
+const UserImportDialog: React.FC<UserImportDialogProps> = ({ existingEmails, onClose }) => {
+  const toast = useToast();
+  const { data: clinics } = useQuery(queryKeys.clinics(), getClinics);
+  const [fileName, setFileName] = useState("");
+  const [validation, setValidation] = useState<UserImportValidation | null>(null);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [outcomes, setOutcomes] = useState<UserImportOutcome[] | null>(null);
+
+  const onFiles = async ([file]: File[]) => {
+    if (!file) return;
+    setFileName(file.name);
+    setOutcomes(null);
+    setValidation(await validateUserCsvFile(file, existingEmails, clinics));
+  };
+
+  const reset = () => {
+    setFileName("");
+    setValidation(null);
+    setOutcomes(null);
+  };
+
+  const runImport = async () => {
+    if (!validation) return;
+    const rows: UserImportRow[] = validation.validRows;
+    setRunning(true);
+    setProgress(0);
+    // One users-list reload at the end instead of one per created account.
+    const settled = await batchInvalidations(() =>
+      mapWithConcurrency(rows, IMPORT_CONCURRENCY, async (row) => {
+        try {
+          return await createUser({
+            email: row.email,
+            role: row.role!,
+            clinicId: row.role === "ClinicStaff" ? row.clinicId : undefined,
+            name: row.name || undefined,
+          });
+        } finally {
+          setProgress((n: number) => n + 1);
+        }
+      })
+    );
+
+    const byRow = new Map(rows.map((row, i) => [row, settled[i]]));
+    const next = validation.rows.map((row): UserImportOutcome => {
+      const s = byRow.get(row);
+      if (!s) return { row, result: "skipped" };
+      return s.status === "fulfilled"
+        ? { row, result: "created" }
+        : { row, result: "failed", message: errorMessage(s.reason, "Failed to create user.") };
+    });
+    setOutcomes(next);
+    setRunning(false);
+
+    const created = next.filter((o) => o.result === "created").length;
+    const failed = next.filter((o) => o.result === "failed").length;
+    const summary = `Imported ${created} of ${rows.length} user${rows.length === 1 ? "" : "s"} from ${fileName}.`;
+    if (failed) toast.warning(`${summary} ${failed} failed; download the result report for details.`);
+    else toast.success(summary);
+  };
+
+  const invalid = validation?.invalidRowCount ?? 0;
+  const validCount = validation?.validRows.length ?? 0;
+  const canImport = !!validation && !validation.fileErrors.length && validCount > 0 && !outcomes;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        className="bg-white rounded-lg p-8 max-w-4xl w-full max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-users-title"
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 id="import-users-title" className="text-2xl font-bold">Import Users</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Columns: {USER_CSV_COLUMNS.join(", ")}. CLINIC_ID (a registered clinic) is required for ClinicStaff only; NAME is optional.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={downloadUserCsvTemplate}
+            className="flex items-center text-sm text-primary font-semibold hover:underline whitespace-nowrap ml-4"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+            Template
+          </button>
+        </div>
+
+        {!validation ? (
+          <FileDropZone
+            onFiles={onFiles}
+            multiple={false}
+            label="Drag and drop a user CSV here, or click to browse"
+          />
+        ) : (
+          <div className="flex flex-col min-h-0 space-y-4">
+            <div className="flex justify-between items-center text-sm">
+              <p className="text-gray-700">
+                <span className="font-medium">{fileName}</span>
+                {validation.rows.length > 0 && (
+                  <>
+                    {" "}
+                    — {validCount} ready
+                    {invalid > 0 && <span className="text-red-600">, {invalid} with errors (will be skipped)</span>}
+                  </>
+                )}
+              </p>
+              {!running && !outcomes && (
+                <button type="button" onClick={reset} className="text-primary hover:underline">
+                  Choose another file
+                </button>
+              )}
+            </div>
+
+            {validation.fileErrors.length > 0 && (
+              <ul className="rounded-md px-4 py-3 border bg-red-50 text-red-800 border-red-200 text-sm list-disc list-inside">
+                {validation.fileErrors.map((e) => (
+                  <li key={e}>{e}</li>
+                ))}
+              </ul>
+            )}
+
+            {validation.rows.length > 0 && !outcomes && (
+              <div className="overflow-auto border rounded-md min-h-0">
+                <table className="min-w-full text-sm divide-y divide-gray-200">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      {["Line", "Email", "Role", "Clinic ID", "Name", "Problems"].map((h) => (
+                        <th key={h} className="px-3 py-2 text-left font-semibold text-gray-600">
+                          {h}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {validation.rows.map((row) => (
+                      <tr key={row.line} className={row.errors.length ? "bg-red-50" : undefined}>
+                        <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.email || "—"}</td>
+                        <td className="px-3 py-2 text-gray-700">{row.role ?? "—"}</td>
+                        <td className="px-3 py-2 text-gray-700">{row.clinicId || "—"}</td>
+                        <td className="px-3 py-2 text-gray-700">{row.name || "—"}</td>
+                        <td className="px-3 py-2 text-red-700">{row.errors.join("; ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {running && (
+              <div role="status">
+                <p className="text-sm text-gray-700 mb-1">
+                  Creating users… {progress} / {validCount}
+                </p>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-primary h-2 rounded-full transition-all"
+                    style={{ width: `${validCount ? (progress / validCount) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {outcomes && (
+              <>
+                <BulkResultSummary
+                  action="Import"
+                  results={outcomes
+                    .filter((o) => o.result !== "skipped")
+                    .map((o) => ({ id: o.row.email, ok: o.result === "created", error: o.message }))}
+                  skipped={invalid}
+                  onDismiss={reset}
+                />
+                <button
+                  type="button"
+                  onClick={() => downloadImportReport(outcomes, fileName)}
+                  className="self-start flex items-center text-sm text-primary font-semibold hover:underline"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                  Download result report
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-4 pt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={running}
+            className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300 disabled:opacity-50"
+          >
+            {outcomes ? "Close" : "Cancel"}
+          </button>
+          {!outcomes && (
+            <button
+              type="button"
+              onClick={runImport}
+              disabled={!canImport || running}
+              className="bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark disabled:bg-gray-400"
+            >
+              {running ? "Importing..." : `Import ${validCount} user${validCount === 1 ? "" : "s"}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UserImportDialog;
@@ -6,63 +6,46 @@ import React, {
   useMemo,
   useEffect,
 } from "react";
-import { User, UserRole } from "../types";
-
-// ===== Cognito Hosted UI config =====
-const COGNITO_DOMAIN =
-  "us-east-1yui7wwdxt.auth.us-east-1.amazoncognito.com"; // Confirm your domain
-const COGNITO_CLIENT_ID = "3811roiq7vloo7q2si1nrpgs0d"; // Confirm client ID
-
-// Dynamically pick redirect based on environment
-const ORIGIN_WITH_SLASH = `${window.location.origin.replace(/\/+$/, "")}/`;
-
-const COGNITO_REDIRECT_URI = ORIGIN_WITH_SLASH;
-const COGNITO_LOGOUT_URI = ORIGIN_WITH_SLASH;
-
-const TOKEN_STORAGE_KEY = "cognito_id_token";
+import { User } from "../types";
+import { roleFromGroups } from "../services/permissions";
+import {
+  buildAuthorizeUrl,
+  buildLogoutUrl,
+  clearTokens,
+  decodeJwtPayload,
+  exchangeCodeFromUrl,
+  getIdToken,
+  getRefreshToken,
+  onTokensChanged,
+  refreshTokens,
+  storeTokens,
+  tokenExpiry,
+} from "../services/authTokens";
+import { isMockMode } from "../services/config";
+import { clearQueryCache } from "../services/queryCache";
+import { flushPendingActions } from "../services/undoQueue";
+
+// Refresh this long before the ID token's `exp` so requests never carry a stale token.
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// After a refresh that failed without the token being rejected (offline, Cognito 5xx).
+const REFRESH_RETRY_MS = 30 * 1000;
 
 interface AuthContextType {
   user: User | null;
-  login: () => void;
+  /** Cognito redirect; in mock mode signs in as the given `MOCK_USERS` persona instead. */
+  login: (mockUserId?: string) => Promise<void>;
   logout: () => void;
   loading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Base64URL -> JSON helper for JWT payloads
-function decodeJwtPayload<T = any>(jwt: string): T {
-  const base64Url = jwt.split(".")[1];
-  if (!base64Url) throw new Error("Invalid JWT");
-
-  const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
-
-  const json = atob(padded);
-  return JSON.parse(json) as T;
-}
-
+// Expiry is handled by the caller (refresh), so this only maps claims to a User.
 const parseToken = (idToken: string): User | null => {
   try {
     const decodedPayload: any = decodeJwtPayload(idToken);
 
-    if (decodedPayload.exp * 1000 < Date.now()) {
-      console.warn("Cognito token is expired.");
-      localStorage.removeItem(TOKEN_STORAGE_KEY);
-      return null;
-    }
-
-    const groups: string[] = decodedPayload["cognito:groups"] || [];
-    const has = (g: string) => groups.includes(g);
-
-    let role = UserRole.CLINIC;
-    if (has("MedisysAdmin") || has("MedSysAdmin") || has("Admin")) {
-      role = UserRole.ADMIN;
-    } else if (has("MedisysStaff") || has("MedSysStaff") || has("Staff")) {
-      role = UserRole.STAFF;
-    } else if (has("ClinicStaff") || has("ClinicUser")) {
-      role = UserRole.CLINIC;
-    }
+    const role = roleFromGroups(decodedPayload["cognito:groups"]);
 
     // ✅ Always prefer readable identifiers instead of UUID
     const displayName =
@@ -82,72 +65,121 @@ const parseToken = (idToken: string): User | null => {
     return cognitoUser;
   } catch (error) {
     console.error("Error parsing Cognito token:", error);
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    clearTokens();
     return null;
   }
 };
 
+// Returns a valid ID token, refreshing first if the stored one has expired.
+async function restoreSession(): Promise<string | null> {
+  const stored = getIdToken();
+  if (stored && tokenExpiry(stored) > Date.now()) return stored;
+  if (getRefreshToken()) return refreshTokens();
+  if (stored) {
+    console.warn("Cognito token is expired.");
+    clearTokens();
+  }
+  return null;
+}
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({
   children,
 }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [idToken, setIdToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
+  /* Session bootstrap: OAuth callback (?code=) first, then stored tokens */
   useEffect(() => {
-    const storedToken = localStorage.getItem(TOKEN_STORAGE_KEY);
-    if (storedToken) {
-      const sessionUser = parseToken(storedToken);
-      if (sessionUser) {
-        setUser(sessionUser);
-        setLoading(false);
-        return;
+    let cancelled = false;
+
+    (async () => {
+      let token: string | null = null;
+      try {
+        const tokens = isMockMode() ? null : await exchangeCodeFromUrl(window.location.search);
+        if (tokens) token = tokens.idToken;
+      } catch (error) {
+        console.error("Cognito code exchange failed:", error);
+      } finally {
+        if (/[?&](code|state|error)=/.test(window.location.search)) {
+          window.history.replaceState(
+            null,
+            "",
+            window.location.pathname + window.location.hash
+          );
+        }
       }
-    }
 
-    const hash = window.location.hash.startsWith("#")
-      ? window.location.hash.slice(1)
-      : window.location.hash;
+      if (!token) token = await restoreSession();
+      if (cancelled) return;
 
-    if (hash) {
-      const params = new URLSearchParams(hash);
-      const idToken = params.get("id_token");
-
-      if (idToken) {
-        const cognitoUser = parseToken(idToken);
-        if (cognitoUser) {
-          localStorage.setItem(TOKEN_STORAGE_KEY, idToken);
-          setUser(cognitoUser);
-        }
-        window.history.replaceState(
-          null,
-          "",
-          window.location.pathname + window.location.search
-        );
-      }
-    }
+      setIdToken(token);
+      setUser(token ? parseToken(token) : null);
+      setLoading(false);
+    })();
 
-    setLoading(false);
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  const login = () => {
+  /* Keep state in sync when api.ts refreshes tokens or a refresh fails */
+  useEffect(
+    () =>
+      onTokensChanged((token) => {
+        // Cached lists belong to the signed-out user; never show them to the next one.
+        if (!token) clearQueryCache();
+        setIdToken(token);
+        setUser(token ? parseToken(token) : null);
+      }),
+    []
+  );
+
+  /* Silent refresh shortly before the ID token expires, retried while the refresh token survives */
+  useEffect(() => {
+    if (!idToken || !getRefreshToken()) return;
+    let active = true;
+    let t: ReturnType<typeof setTimeout>;
+    const schedule = (delay: number) => {
+      t = setTimeout(async () => {
+        const token = await refreshTokens();
+        if (active && !token && getRefreshToken()) schedule(REFRESH_RETRY_MS);
+      }, delay);
+    };
+    schedule(Math.max(0, tokenExpiry(idToken) - Date.now() - REFRESH_MARGIN_MS));
+    return () => {
+      active = false;
+      clearTimeout(t);
+    };
+  }, [idToken]);
+
+  const login = async (mockUserId?: string) => {
+    if (isMockMode()) {
+      if (!mockUserId) throw new Error("Pick a demo user to sign in as.");
+      const { createMockSession } = await import("../services/mockApiService");
+      storeTokens(createMockSession(mockUserId)); // onTokensChanged sets the user
+      return;
+    }
     setLoading(true);
-    const scopes = encodeURIComponent("openid profile email");
-    const authUrl = `https://${COGNITO_DOMAIN}/login?client_id=${encodeURIComponent(
-      COGNITO_CLIENT_ID
-    )}&response_type=token&scope=${scopes}&redirect_uri=${encodeURIComponent(
-      COGNITO_REDIRECT_URI
-    )}`;
-    window.location.href = authUrl;
+    try {
+      window.location.href = await buildAuthorizeUrl();
+    } catch (error) {
+      setLoading(false);
+      throw error;
+    }
   };
 
-  const logout = () => {
+  const logout = async () => {
+    // Deletions still inside their undo window go through now, while the token is valid.
+    await flushPendingActions();
+    if (isMockMode()) {
+      clearTokens();
+      return;
+    }
     setLoading(true);
-    localStorage.removeItem(TOKEN_STORAGE_KEY);
+    clearTokens();
     setUser(null);
-    const logoutUrl = `https://${COGNITO_DOMAIN}/logout?client_id=${encodeURIComponent(
-      COGNITO_CLIENT_ID
-    )}&logout_uri=${encodeURIComponent(COGNITO_LOGOUT_URI)}`;
-    window.location.href = logoutUrl;
+    window.location.href = buildLogoutUrl();
   };
 
   const value = useMemo(
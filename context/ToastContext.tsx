@@ -0,0 +1,174 @@
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import ToastStack from "../components/ToastStack";
+
+export type ToastSeverity = "success" | "error" | "warning" | "info";
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface ToastOptions {
+  title?: string;
+  /** One button on the toast, e.g. "Undo" or "View report". Clicking it dismisses the toast. */
+  action?: ToastAction;
+  /** Auto-dismiss delay; 0 keeps the toast until it is closed. */
+  durationMs?: number;
+}
+
+export interface Toast extends ToastOptions {
+  id: string;
+  severity: ToastSeverity;
+  message: string;
+  durationMs: number;
+  createdAt: number;
+}
+
+interface ToastContextType {
+  /** Toasts currently on screen, oldest first. */
+  toasts: Toast[];
+  /** Everything shown this session, newest first. */
+  history: Toast[];
+  unreadCount: number;
+  notify: (severity: ToastSeverity, message: string, options?: ToastOptions) => string;
+  success: (message: string, options?: ToastOptions) => string;
+  error: (message: string, options?: ToastOptions) => string;
+  warning: (message: string, options?: ToastOptions) => string;
+  info: (message: string, options?: ToastOptions) => string;
+  dismiss: (id: string) => void;
+  markHistoryRead: () => void;
+  clearHistory: () => void;
+}
+
+// Errors stay up longer; toasts with an action give the user time to reach the button.
+const DEFAULT_DURATION_MS: Record<ToastSeverity, number> = {
+  success: 5000,
+  info: 5000,
+  warning: 8000,
+  error: 8000,
+};
+const ACTION_MIN_DURATION_MS = 8000;
+const MAX_VISIBLE = 4;
+const MAX_HISTORY = 50;
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+// Make room by dropping the oldest passive toasts. Toasts with an action (e.g. a
+// pending delete's "Undo") and the newest toast are never evicted, so the stack
+// may run over while they last.
+function capVisible(toasts: Toast[]): Toast[] {
+  let excess = toasts.length - MAX_VISIBLE;
+  if (excess <= 0) return toasts;
+  const newest = toasts[toasts.length - 1];
+  return toasts.filter((t) => t.action || t === newest || excess-- <= 0);
+}
+
+let seq = 0;
+
+/**
+ * App-wide notifications: a stack of auto-dismissing toasts, screen reader
+ * announcements and a session history for the Header drawer. History is kept
+ * in memory only and cleared on sign-out, since messages can name patients.
+ */
+export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const [history, setHistory] = useState<Toast[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  // Live regions stay mounted and only their text changes, which screen readers announce reliably.
+  const [announcement, setAnnouncement] = useState<{ polite: string; assertive: string }>({
+    polite: "",
+    assertive: "",
+  });
+  const announceSeq = useRef(0);
+
+  const dismiss = useCallback((id: string) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const notify = useCallback(
+    (severity: ToastSeverity, message: string, options: ToastOptions = {}) => {
+      const id = `toast-${Date.now()}-${++seq}`;
+      const durationMs =
+        options.durationMs ??
+        Math.max(DEFAULT_DURATION_MS[severity], options.action ? ACTION_MIN_DURATION_MS : 0);
+      const toast: Toast = { ...options, id, severity, message, durationMs, createdAt: Date.now() };
+
+      // Evicted toasts remain in history.
+      setToasts((prev) => capVisible([...prev, toast]));
+      setHistory((prev) => [toast, ...prev].slice(0, MAX_HISTORY));
+      setUnreadCount((n) => Math.min(n + 1, MAX_HISTORY));
+
+      const text = options.title ? `${options.title}. ${message}` : message;
+      // Alternate a zero-width suffix so repeating the same message is still announced.
+      const suffix = ++announceSeq.current % 2 ? "" : "\u200B";
+      setAnnouncement(
+        severity === "error"
+          ? { polite: "", assertive: text + suffix }
+          : { polite: text + suffix, assertive: "" }
+      );
+      return id;
+    },
+    []
+  );
+
+  const markHistoryRead = useCallback(() => setUnreadCount(0), []);
+  const clearHistory = useCallback(() => {
+    setHistory([]);
+    setUnreadCount(0);
+  }, []);
+
+  useEffect(() => {
+    if (user) return;
+    setToasts([]);
+    clearHistory();
+  }, [user, clearHistory]);
+
+  const value = useMemo<ToastContextType>(
+    () => ({
+      toasts,
+      history,
+      unreadCount,
+      notify,
+      success: (message, options) => notify("success", message, options),
+      error: (message, options) => notify("error", message, options),
+      warning: (message, options) => notify("warning", message, options),
+      info: (message, options) => notify("info", message, options),
+      dismiss,
+      markHistoryRead,
+      clearHistory,
+    }),
+    [toasts, history, unreadCount, notify, dismiss, markHistoryRead, clearHistory]
+  );
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+      <ToastStack toasts={toasts} onDismiss={dismiss} />
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {announcement.polite}
+      </div>
+      <div className="sr-only" role="alert" aria-live="assertive" aria-atomic="true">
+        {announcement.assertive}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+export const useToast = (): ToastContextType => {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error("useToast must be used within a ToastProvider");
+  }
+  return context;
+};
@@ -0,0 +1,8 @@
+import { useAuth } from "../context/AuthContext";
+import { hasPermission, Permission } from "../services/permissions";
+
+/** Whether the signed-in user may perform `permission`. False while signed out. */
+export function usePermission(permission: Permission): boolean {
+  const { user } = useAuth();
+  return hasPermission(user?.role, permission);
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useReducer, useRef } from "react";
+import type { QueryKey } from "../services/queryCache";
+import {
+  DEFAULT_STALE_MS,
+  fetchQuery,
+  getQueryState,
+  isStale,
+  subscribeQuery,
+} from "../services/queryCache";
+
+export interface UseQueryOptions {
+  /** How long cached data counts as fresh; older data is shown while it refetches. */
+  staleTime?: number;
+  /** Skip fetching (e.g. until the user's role is known). */
+  enabled?: boolean;
+}
+
+/**
+ * Read `key` through the query cache. Cached data renders immediately and is
+ * revalidated in the background when stale; components asking for the same key
+ * share one request and see each other's updates.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_MS, enabled = true }: UseQueryOptions = {}
+) {
+  const [, rerender] = useReducer((n: number) => n + 1, 0);
+  const hash = JSON.stringify(key);
+  // Latest fetcher without making it an effect dependency; callers pass inline lambdas.
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const refetch = useCallback(
+    () => fetchQuery<T>(JSON.parse(hash), () => fetcherRef.current()).catch(() => undefined),
+    [hash]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribe = subscribeQuery(JSON.parse(hash), rerender);
+    if (isStale(JSON.parse(hash), staleTime)) refetch();
+    return unsubscribe;
+  }, [hash, enabled, staleTime, refetch]);
+
+  const state = getQueryState<T>(key);
+  return {
+    data: state.data,
+    error: state.error,
+    /** No data yet and a request is (or is about to be) in flight. */
+    isLoading: enabled && state.data === undefined && !state.error,
+    /** Any request in flight, including background revalidation. */
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
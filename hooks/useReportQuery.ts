@@ -0,0 +1,11 @@
+import { REPORT_QUERY } from "../services/reportFilters";
+import { useUrlTableState } from "./useUrlTableState";
+
+export const DEFAULT_PAGE_SIZE = 25;
+/** `pageSize` value meaning "no pages" — every row in one virtualized list. */
+export const ALL_ROWS = 0;
+
+/** Report filter, sort and page state in the URL, so a reports view can be bookmarked or shared. */
+export function useReportQuery() {
+  return useUrlTableState(REPORT_QUERY, { defaultPageSize: DEFAULT_PAGE_SIZE, allowAll: true });
+}
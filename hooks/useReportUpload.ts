@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError, uploadReportFile } from "../services/uploadService";
+import type { UploadResult } from "../services/uploadService";
+
+export type UploadStatus =
+  | "idle"
+  | "uploading"
+  | "retrying"
+  | "success"
+  | "error"
+  | "cancelled";
+
+export interface ReportUploadState {
+  status: UploadStatus;
+  fileName: string | null;
+  loaded: number;
+  total: number;
+  /** 0–100, rounded. */
+  percent: number;
+  attempt: number;
+  error: string | null;
+}
+
+const INITIAL_STATE: ReportUploadState = {
+  status: "idle",
+  fileName: null,
+  loaded: 0,
+  total: 0,
+  percent: 0,
+  attempt: 0,
+  error: null,
+};
+
+/**
+ * Wraps `uploadReportFile` with React state for one upload at a time.
+ * `upload` resolves to the result, or `null` when it failed or was cancelled
+ * (the reason is in `state`). Any in-flight upload is aborted on unmount.
+ */
+export function useReportUpload() {
+  const [state, setState] = useState<ReportUploadState>(INITIAL_STATE);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const upload = useCallback(async (file: File): Promise<UploadResult | null> => {
+    const previous = controllerRef.current;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    previous?.abort();
+    // A superseded or reset upload must not write into the current state.
+    const isCurrent = () => controllerRef.current === controller;
+
+    setState({ ...INITIAL_STATE, status: "uploading", fileName: file.name, total: file.size, attempt: 1 });
+
+    try {
+      const result = await uploadReportFile(file, {
+        signal: controller.signal,
+        onProgress: ({ loaded, total }) =>
+          isCurrent() &&
+          setState((s) => ({
+            ...s,
+            // Each attempt opens with a zero-byte tick; stay "retrying" until bytes move.
+            status: loaded > 0 ? "uploading" : s.status,
+            loaded,
+            total,
+            percent: total ? Math.round((loaded / total) * 100) : 0,
+          })),
+        onRetry: (attempt) =>
+          isCurrent() &&
+          setState((s) => ({ ...s, status: "retrying", attempt, loaded: 0, percent: 0 })),
+      });
+      if (isCurrent()) {
+        setState((s) => ({ ...s, status: "success", loaded: s.total, percent: 100 }));
+      }
+      return result;
+    } catch (err: any) {
+      if (!isCurrent()) return null;
+      if (isAbortError(err)) {
+        setState((s) => ({ ...s, status: "cancelled" }));
+      } else {
+        console.error("Upload failed", err);
+        setState((s) => ({
+          ...s,
+          status: "error",
+          error: err?.message || "Upload failed. See console for details.",
+        }));
+      }
+      return null;
+    } finally {
+      if (isCurrent()) controllerRef.current = null;
+    }
+  }, []);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    const current = controllerRef.current;
+    controllerRef.current = null;
+    current?.abort();
+    setState(INITIAL_STATE);
+  }, []);
+
+  const isBusy = state.status === "uploading" || state.status === "retrying";
+
+  return { state, isBusy, upload, cancel, reset };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getIdToken, getRefreshToken, tokenExpiry } from "../services/authTokens";
+import {
+  onActivityFromOtherTabs,
+  readLastActivity,
+  recordActivity,
+} from "../services/sessionTimeout";
+
+export type SessionEndReason = "idle" | "token";
+
+interface SessionTimeoutOptions {
+  /** Sign out after this long without keyboard, mouse or touch input. */
+  idleTimeoutMs: number;
+  /** Show the countdown this long before sign-out. */
+  warningMs: number;
+  /** Called once when the session runs out. */
+  onExpire: (reason: SessionEndReason) => void;
+}
+
+const ACTIVITY_EVENTS = ["mousedown", "mousemove", "keydown", "wheel", "touchstart", "scroll"] as const;
+// Writing localStorage on every mousemove would flood other tabs with storage events.
+const ACTIVITY_THROTTLE_MS = 5000;
+
+/**
+ * Tracks user activity and the ID token's `exp`. When the session is within
+ * `warningMs` of ending, `warning` is true and `secondsLeft` counts down.
+ * Input while the warning is up does not extend the session; the user has to
+ * confirm via `staySignedIn`.
+ */
+export function useSessionTimeout({
+  idleTimeoutMs,
+  warningMs,
+  onExpire,
+}: SessionTimeoutOptions) {
+  const [lastActivity, setLastActivity] = useState(() => {
+    const now = Date.now();
+    recordActivity(now);
+    return now;
+  });
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tokens backed by a refresh token are renewed silently by AuthContext, so
+  // only a bare ID token puts a hard limit on the session.
+  const tokenDeadline = getRefreshToken() ? Infinity : tokenExpiry(getIdToken()) || Infinity;
+  const idleDeadline = lastActivity + idleTimeoutMs;
+  const reason: SessionEndReason = tokenDeadline < idleDeadline ? "token" : "idle";
+  const remaining = Math.min(idleDeadline, tokenDeadline) - now;
+  const warning = remaining <= warningMs;
+
+  const warningRef = useRef(warning);
+  warningRef.current = warning;
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+  const expiredRef = useRef(false);
+
+  /* Clock */
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  /* Local input + other tabs */
+  useEffect(() => {
+    let lastWrite = 0;
+    const onActivity = () => {
+      if (warningRef.current) return;
+      const at = Date.now();
+      if (at - lastWrite < ACTIVITY_THROTTLE_MS) return;
+      lastWrite = at;
+      recordActivity(at);
+      setLastActivity(at);
+    };
+
+    ACTIVITY_EVENTS.forEach((e) => window.addEventListener(e, onActivity, { passive: true }));
+    const unsubscribe = onActivityFromOtherTabs((at) => setLastActivity((prev) => Math.max(prev, at)));
+
+    // Another tab may have been active while this one was in the background.
+    const onVisible = () => {
+      if (document.visibilityState === "visible") {
+        setLastActivity((prev) => Math.max(prev, readLastActivity()));
+        setNow(Date.now());
+      }
+    };
+    document.addEventListener("visibilitychange", onVisible);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((e) => window.removeEventListener(e, onActivity));
+      unsubscribe();
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, []);
+
+  /* Expiry */
+  useEffect(() => {
+    if (remaining > 0 || expiredRef.current) return;
+    expiredRef.current = true;
+    onExpireRef.current(reason);
+  }, [remaining, reason]);
+
+  const staySignedIn = useCallback(() => {
+    const at = Date.now();
+    recordActivity(at);
+    setLastActivity(at);
+    setNow(at);
+  }, []);
+
+  return {
+    warning,
+    reason,
+    secondsLeft: Math.max(0, Math.ceil(remaining / 1000)),
+    staySignedIn,
+  };
+}
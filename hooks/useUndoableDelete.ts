@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useReducer } from "react";
+import { useToast } from "../context/ToastContext";
+import { errorMessage } from "../services/apiErrors";
+import { isPending, stageAction, subscribePending, UNDO_WINDOW_MS } from "../services/undoQueue";
+
+/** Undo-queue keys, shared so every page hides the same staged rows. */
+export const deleteKeys = {
+  report: (reportId: string) => `report:${reportId}`,
+  user: (email: string) => `user:${email.toLowerCase()}`,
+};
+
+/**
+ * Stage deletions behind an "Undo" toast. Callers hide rows whose key
+ * `isPending` so they disappear at once; `commit` runs after the undo window.
+ * The api.ts delete calls drop the row from the query cache on success, and a
+ * failed commit brings the row back with an error toast.
+ */
+export function useUndoableDelete() {
+  const { notify } = useToast();
+  // Bumped whenever the pending set changes; use it as a memo dependency next to `isPending`.
+  const [pendingVersion, rerender] = useReducer((n: number) => n + 1, 0);
+
+  useEffect(() => subscribePending(rerender), []);
+
+  // Pass several keys to hide a whole batch behind one toast and one `commit`.
+  const stageDelete = useCallback(
+    (key: string | readonly string[], label: string, commit: () => Promise<unknown>) => {
+      const undo = stageAction(key, commit, {
+        onError: (err) => notify("error", `${label} could not be deleted. ${errorMessage(err)}`),
+      });
+      notify("info", `${label} deleted.`, {
+        durationMs: UNDO_WINDOW_MS,
+        action: {
+          label: "Undo",
+          onClick: () => {
+            if (undo()) notify("success", `${label} restored.`);
+            else notify("warning", `${label} was already deleted.`);
+          },
+        },
+      });
+    },
+    [notify]
+  );
+
+  return { stageDelete, isPending, pendingVersion };
+}
@@ -0,0 +1,257 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { mapWithConcurrency } from "../services/concurrency";
+import type { CsvValidationResult } from "../services/csvValidation";
+import { validateReportCsvFile } from "../services/csvValidation";
+import { isAbortError, uploadReportFile } from "../services/uploadService";
+
+export type QueueItemStatus =
+  | "validating"
+  | "invalid"
+  | "ready"
+  | "queued"
+  | "uploading"
+  | "retrying"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  status: QueueItemStatus;
+  validation: CsvValidationResult | null;
+  loaded: number;
+  percent: number;
+  attempt: number;
+  error: string | null;
+}
+
+export interface QueueFailure {
+  id: string;
+  fileName: string;
+  error: string;
+}
+
+export interface QueueSummary {
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  /** Files left out because they did not pass validation. */
+  skipped: number;
+  /** Files of this batch whose upload failed, for the summary panel. */
+  failures: QueueFailure[];
+}
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 2;
+
+// Statuses that `start` will (re)submit. Cancelled files stay out until `retry` re-arms them.
+const UPLOADABLE: QueueItemStatus[] = ["ready", "failed"];
+
+let seq = 0;
+const nextId = () => `upload-${Date.now()}-${++seq}`;
+// Same name and size counts as the same file.
+const fileKey = (file: File) => `${file.name}:${file.size}`;
+
+// Status a file returns to once validated, or when a cancelled file is re-armed.
+function validatedStatus(it: QueueItem): QueueItemStatus {
+  if (!it.validation) return it.error ? "invalid" : "validating";
+  return it.validation.isValid ? "ready" : "invalid";
+}
+
+/**
+ * Batch upload queue: files are validated as they are added, then `start`
+ * uploads every valid one with at most `concurrency` transfers in flight.
+ */
+export function useUploadQueue(concurrency = DEFAULT_UPLOAD_CONCURRENCY) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [summary, setSummary] = useState<QueueSummary | null>(null);
+
+  const itemsRef = useRef<QueueItem[]>([]);
+  itemsRef.current = items;
+  const controllers = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const map = controllers.current;
+    return () => map.forEach((c) => c.abort());
+  }, []);
+
+  const patch = useCallback((id: string, changes: Partial<QueueItem>) => {
+    setItems((prev) => prev.map((it) => (it.id === id ? { ...it, ...changes } : it)));
+  }, []);
+
+  // A file cancelled while it was still being checked keeps its "cancelled" status.
+  const applyValidation = useCallback((id: string, changes: Pick<QueueItem, "validation" | "error">) => {
+    setItems((prev) =>
+      prev.map((it) => {
+        if (it.id !== id) return it;
+        const next = { ...it, ...changes };
+        return it.status === "validating" ? { ...next, status: validatedStatus(next) } : next;
+      })
+    );
+  }, []);
+
+  const addFiles = useCallback(
+    (files: File[]) => {
+      if (!files.length) return;
+      const added: QueueItem[] = files.map((file) => ({
+        id: nextId(),
+        file,
+        status: "validating",
+        validation: null,
+        loaded: 0,
+        percent: 0,
+        attempt: 0,
+        error: null,
+      }));
+      // Ignore a file that is already queued. Checked against the latest state, so two
+      // quick drops of the same file can't both get in.
+      setItems((prev) => {
+        const seen = new Set(prev.map((it) => fileKey(it.file)));
+        const fresh = added.filter((it) => {
+          const key = fileKey(it.file);
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        });
+        return fresh.length ? [...prev, ...fresh] : prev;
+      });
+
+      // Results for duplicates that were left out match no item and are dropped.
+      added.forEach(async (item) => {
+        try {
+          applyValidation(item.id, { validation: await validateReportCsvFile(item.file), error: null });
+        } catch (err: any) {
+          applyValidation(item.id, { validation: null, error: err?.message || "Could not read file." });
+        }
+      });
+    },
+    [applyValidation]
+  );
+
+  const remove = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    setItems((prev) => prev.filter((it) => it.id !== id));
+  }, []);
+
+  const cancel = useCallback(
+    (id: string) => {
+      const c = controllers.current.get(id);
+      if (c) c.abort();
+      else patch(id, { status: "cancelled" });
+    },
+    [patch]
+  );
+
+  const retry = useCallback((id: string) => {
+    setItems((prev) =>
+      prev.map((it) =>
+        it.id === id && it.status === "cancelled"
+          ? { ...it, status: validatedStatus(it), loaded: 0, percent: 0, attempt: 0 }
+          : it
+      )
+    );
+  }, []);
+
+  const dismissSummary = useCallback(() => setSummary(null), []);
+
+  const cancelAll = useCallback(() => {
+    controllers.current.forEach((c) => c.abort());
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setSummary(null);
+    setItems((prev) => prev.filter((it) => it.status !== "done"));
+  }, []);
+
+  // Upload every uploadable file, or only those in `only`.
+  const run = useCallback(async (only?: ReadonlySet<string>) => {
+    const batch: QueueItem[] = itemsRef.current.filter(
+      (it) => UPLOADABLE.includes(it.status) && (!only || only.has(it.id))
+    );
+    if (!batch.length) return;
+    const failures: QueueFailure[] = [];
+
+    batch.forEach((it) => controllers.current.set(it.id, new AbortController()));
+    setItems((prev) =>
+      prev.map((it) =>
+        batch.some((b) => b.id === it.id)
+          ? { ...it, status: "queued", loaded: 0, percent: 0, attempt: 0, error: null }
+          : it
+      )
+    );
+    setSummary(null);
+    setIsRunning(true);
+
+    const outcomes = await mapWithConcurrency(batch, concurrency, async (item) => {
+      const controller = controllers.current.get(item.id)!;
+      try {
+        if (controller.signal.aborted) {
+          patch(item.id, { status: "cancelled" });
+          return "cancelled" as const;
+        }
+        patch(item.id, { status: "uploading", attempt: 1 });
+        await uploadReportFile(item.file, {
+          signal: controller.signal,
+          onProgress: ({ loaded, total }) =>
+            patch(item.id, {
+              // Keep a "retrying" badge through the zero-byte tick that opens each attempt.
+              ...(loaded > 0 && { status: "uploading" as const }),
+              loaded,
+              percent: total ? Math.round((loaded / total) * 100) : 0,
+            }),
+          onRetry: (attempt) => patch(item.id, { status: "retrying", attempt, loaded: 0, percent: 0 }),
+        });
+        patch(item.id, { status: "done", percent: 100 });
+        return "done" as const;
+      } catch (err: any) {
+        if (isAbortError(err)) {
+          patch(item.id, { status: "cancelled" });
+          return "cancelled" as const;
+        }
+        console.error(`Upload of ${item.file.name} failed`, err);
+        const error = err?.message || "Upload failed.";
+        failures.push({ id: item.id, fileName: item.file.name, error });
+        patch(item.id, { status: "failed", error });
+        return "failed" as const;
+      } finally {
+        controllers.current.delete(item.id);
+      }
+    });
+
+    const counts = outcomes.map((o) => (o.status === "fulfilled" ? o.value : "failed"));
+    setSummary({
+      succeeded: counts.filter((c) => c === "done").length,
+      failed: counts.filter((c) => c === "failed").length,
+      cancelled: counts.filter((c) => c === "cancelled").length,
+      skipped: itemsRef.current.filter((it) => it.status === "invalid").length,
+      failures,
+    });
+    setIsRunning(false);
+  }, [concurrency, patch]);
+
+  const start = useCallback(() => run(), [run]);
+
+  /** Upload again just the files that failed in the last batch. */
+  const retryFailed = useCallback(() => {
+    if (summary?.failures.length) run(new Set(summary.failures.map((f) => f.id)));
+  }, [run, summary]);
+
+  const uploadableCount = items.filter((it) => UPLOADABLE.includes(it.status)).length;
+
+  return {
+    items,
+    isRunning,
+    summary,
+    uploadableCount,
+    addFiles,
+    remove,
+    cancel,
+    retry,
+    cancelAll,
+    clearFinished,
+    start,
+    retryFailed,
+    dismissSummary,
+  };
+}
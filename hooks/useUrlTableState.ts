@@ -0,0 +1,69 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import type { TableQueryConfig, TableSort } from "../services/tableQuery";
+import { readFilters, readSort, toggleSort as nextSort, writeTableQuery } from "../services/tableQuery";
+
+interface PageSizeOptions {
+  defaultPageSize: number;
+  /** Accept `size=0`, meaning every row on one page. */
+  allowAll?: boolean;
+}
+
+/**
+ * Table filter, sort and page state, stored in the URL query string so a view
+ * can be bookmarked or shared. Updates replace the history entry instead of
+ * pushing. Changing filters or sort jumps back to the first page.
+ */
+export function useUrlTableState<F extends Record<keyof F, string>, K extends string>(
+  config: TableQueryConfig<F, K>,
+  { defaultPageSize, allowAll = false }: PageSizeOptions
+) {
+  const [params, setParams] = useSearchParams();
+
+  const filters = useMemo(() => readFilters(params, config.emptyFilters), [params, config]);
+  const sort = useMemo(() => readSort(params, config.sortKeys, config.defaultSort), [params, config]);
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const size = Number(params.get("size") ?? NaN);
+  const pageSize = Number.isInteger(size) && (size > 0 || (allowAll && size === 0)) ? size : defaultPageSize;
+
+  const update = useCallback(
+    (nextFilters: F, sortBy: TableSort<K>) => {
+      const next = writeTableQuery(params, config, nextFilters, sortBy);
+      next.delete("page");
+      setParams(next, { replace: true });
+    },
+    [params, setParams, config]
+  );
+
+  const setFilter = useCallback(
+    <P extends keyof F>(key: P, value: F[P]) => update({ ...filters, [key]: value }, sort),
+    [filters, sort, update]
+  );
+
+  const toggleSort = useCallback((key: K) => update(filters, nextSort(sort, key)), [filters, sort, update]);
+
+  const resetFilters = useCallback(() => update(config.emptyFilters, sort), [sort, update, config]);
+
+  const setPage = useCallback(
+    (n: number) => {
+      const next = new URLSearchParams(params);
+      if (n > 1) next.set("page", String(n));
+      else next.delete("page");
+      setParams(next, { replace: true });
+    },
+    [params, setParams]
+  );
+
+  const setPageSize = useCallback(
+    (n: number) => {
+      const next = new URLSearchParams(params);
+      next.delete("page");
+      if (n === defaultPageSize) next.delete("size");
+      else next.set("size", String(n));
+      setParams(next, { replace: true });
+    },
+    [params, setParams, defaultPageSize]
+  );
+
+  return { filters, sort, page, pageSize, setFilter, toggleSort, resetFilters, setPage, setPageSize };
+}
@@ -0,0 +1,9 @@
+import { USER_QUERY } from "../services/userFilters";
+import { useUrlTableState } from "./useUrlTableState";
+
+export const DEFAULT_USER_PAGE_SIZE = 25;
+
+/** User table search, filter, sort and page state in the URL, like `useReportQuery`. */
+export function useUserQuery() {
+  return useUrlTableState(USER_QUERY, { defaultPageSize: DEFAULT_USER_PAGE_SIZE });
+}
@@ -0,0 +1,38 @@
+import { useCallback, useState } from "react";
+import type { UIEvent } from "react";
+
+/**
+ * Windowing for fixed-height table rows. Attach `onScroll` to the scrolling
+ * container and render rows `start`..`end` between spacer rows of
+ * `padTop`/`padBottom` pixels. Disabled → every row is rendered.
+ */
+export function useVirtualRows(
+  count: number,
+  { rowHeight, viewportHeight, overscan = 10, enabled = true }: {
+    rowHeight: number;
+    viewportHeight: number;
+    overscan?: number;
+    enabled?: boolean;
+  }
+) {
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const onScroll = useCallback((e: UIEvent<HTMLElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  if (!enabled) {
+    return { start: 0, end: count, padTop: 0, padBottom: 0, onScroll: undefined };
+  }
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    start,
+    end,
+    padTop: start * rowHeight,
+    padBottom: (count - end) * rowHeight,
+    onScroll,
+  };
+}
@@ -1,8 +1,9 @@
-
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { HashRouter } from 'react-router-dom';
 import App from './App';
+import ConfigErrorScreen from './components/ConfigErrorScreen';
+import { ConfigError, loadConfig } from './services/config';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,10 +11,20 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <HashRouter>
-      <App />
-    </HashRouter>
-  </React.StrictMode>
-);
+
+// Config must be in place before anything talks to Cognito or the API.
+loadConfig()
+  .then(() => {
+    root.render(
+      <React.StrictMode>
+        <HashRouter>
+          <App />
+        </HashRouter>
+      </React.StrictMode>
+    );
+  })
+  .catch((error) => {
+    console.error(error);
+    const issues = error instanceof ConfigError ? error.issues : [String(error?.message ?? error)];
+    root.render(<ConfigErrorScreen issues={issues} />);
+  });
@@ -0,0 +1,189 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowDownTrayIcon, MagnifyingGlassIcon } from "@heroicons/react/24/outline";
+import type { AuditEntry } from "../types";
+import { useQuery } from "../hooks/useQuery";
+import { getAuditLog, queryKeys } from "../services/api";
+import type { AuditFilters } from "../services/auditLog";
+import {
+  AUDIT_ACTION_LABELS,
+  applyAuditFilters,
+  auditActionLabel,
+  EMPTY_AUDIT_FILTERS,
+  exportAuditLog,
+} from "../services/auditLog";
+import { reportStatusLabel } from "../services/reportLifecycle";
+import { paginate } from "../services/tableQuery";
+import ErrorState from "../components/ErrorState";
+import Pagination from "../components/Pagination";
+
+/* SECTION: helpers */
+
+const PAGE_SIZE_OPTIONS = [25, 50, 100];
+
+const inputCls =
+  "px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-primary focus:border-primary bg-white";
+
+function formatDateTime(value: string): string {
+  const dt = new Date(value);
+  return isNaN(dt.getTime()) ? value : dt.toLocaleString();
+}
+
+// Reports link to their detail page; users and clinics have no page of their own.
+const Target: React.FC<{ entry: AuditEntry }> = ({ entry }) =>
+  entry.targetType === "report" && entry.action !== "report.delete" ? (
+    <Link to={`/reports/${entry.targetId}`} className="text-primary hover:underline">
+      {entry.targetId}
+    </Link>
+  ) : (
+    <>{entry.targetId}</>
+  );
+
+/* SECTION: component */
+
+/** Admin view of every recorded review and admin action, newest first. */
+const AuditLog: React.FC = () => {
+  const { data, error, isLoading, refetch } = useQuery(queryKeys.audit(), getAuditLog);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_AUDIT_FILTERS);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(PAGE_SIZE_OPTIONS[0]);
+
+  const entries = useMemo(() => applyAuditFilters(data ?? [], filters), [data, filters]);
+  const { currentPage, pageRows: paged } = paginate<AuditEntry>(entries, page, pageSize);
+
+  const setFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
+  };
+
+  if (isLoading) {
+    return <div className="text-center p-10">Loading audit log...</div>;
+  }
+
+  if (!data) {
+    return <ErrorState error={error} fallback="Failed to load the audit log" onRetry={refetch} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Audit Log</h1>
+        <button
+          onClick={() => exportAuditLog(entries)}
+          disabled={!entries.length}
+          className="flex items-center bg-white text-primary border border-primary font-bold py-2 px-4 rounded-lg hover:bg-secondary disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+          Export CSV
+        </button>
+      </div>
+
+      {/* SECTION: Filters */}
+      <div className="bg-white rounded-xl shadow-md p-4 flex flex-wrap items-end gap-4">
+        <div className="relative flex-1 min-w-[16rem]">
+          <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filters.q}
+            onChange={(e) => setFilter("q", e.target.value)}
+            placeholder="Search actor, target or note"
+            aria-label="Search audit log"
+            className={`w-full pl-10 ${inputCls}`}
+          />
+        </div>
+        <label className="flex flex-col text-xs font-medium text-gray-600">
+          Action
+          <select value={filters.action} onChange={(e) => setFilter("action", e.target.value)} className={`mt-1 ${inputCls}`}>
+            <option value="">All</option>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs font-medium text-gray-600">
+          Target
+          <select
+            value={filters.targetType}
+            onChange={(e) => setFilter("targetType", e.target.value as AuditFilters["targetType"])}
+            className={`mt-1 ${inputCls}`}
+          >
+            <option value="">All</option>
+            <option value="report">Reports</option>
+            <option value="user">Users</option>
+            <option value="clinic">Clinics</option>
+          </select>
+        </label>
+        <fieldset className="flex flex-col text-xs font-medium text-gray-600">
+          <legend>Date</legend>
+          <div className="mt-1 flex items-center space-x-1">
+            <input type="date" value={filters.from} onChange={(e) => setFilter("from", e.target.value)} className={inputCls} aria-label="Date from" />
+            <span className="text-gray-400">–</span>
+            <input type="date" value={filters.to} onChange={(e) => setFilter("to", e.target.value)} className={inputCls} aria-label="Date to" />
+          </div>
+        </fieldset>
+        <span className="text-sm text-gray-500 py-2">
+          {entries.length} of {data.length} entr{data.length === 1 ? "y" : "ies"}
+        </span>
+      </div>
+
+      {/* SECTION: Table */}
+      <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+        <table className="min-w-full text-sm divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {["When", "Who", "Action", "Target", "Status", "Note"].map((h) => (
+                <th key={h} className="px-4 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {paged.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-10 text-center text-gray-500">
+                  {data.length ? "No entries match these filters." : "Nothing has been recorded yet."}
+                </td>
+              </tr>
+            )}
+            {paged.map((e) => (
+              <tr key={e.id} className="hover:bg-gray-50 align-top">
+                <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{formatDateTime(e.timestamp)}</td>
+                <td className="px-4 py-3">
+                  <div className="text-gray-900">{e.actorName}</div>
+                  {e.actorEmail && e.actorEmail !== e.actorName && (
+                    <div className="text-xs text-gray-500">{e.actorEmail}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-900">{auditActionLabel(e)}</td>
+                <td className="px-4 py-3 text-gray-700">
+                  <span className="text-xs text-gray-400 mr-1">{e.targetType}</span>
+                  <Target entry={e} />
+                </td>
+                <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                  {e.statusBefore || e.statusAfter ? `${e.statusBefore ? reportStatusLabel(e.statusBefore) : "—"} → ${e.statusAfter ? reportStatusLabel(e.statusAfter) : "—"}` : "—"}
+                </td>
+                <td className="px-4 py-3 text-gray-700 whitespace-pre-wrap">{e.note || "—"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <Pagination
+          page={currentPage}
+          pageSize={pageSize}
+          total={entries.length}
+          pageSizeOptions={PAGE_SIZE_OPTIONS}
+          onPageChange={setPage}
+          onPageSizeChange={(n) => {
+            setPageSize(n);
+            setPage(1);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import { BuildingOffice2Icon, PlusIcon } from "@heroicons/react/24/solid";
+import type { Clinic } from "../types";
+import { usePermission } from "../hooks/usePermission";
+import { useQuery } from "../hooks/useQuery";
+import { useToast } from "../context/ToastContext";
+import { getClinics, queryKeys, setClinicArchived } from "../services/api";
+import { errorMessage } from "../services/apiErrors";
+import ErrorState from "../components/ErrorState";
+import ClinicDialog from "../components/ClinicDialog";
+
+/* SECTION: helpers */
+
+function formatDate(value?: string): string {
+  if (!value) return "—";
+  const dt = new Date(value);
+  return isNaN(dt.getTime()) ? value : dt.toLocaleDateString();
+}
+
+/* SECTION: component */
+
+/**
+ * Clinic registry. Archiving is reversible and leaves staff and reports in
+ * place; it only stops the clinic from being picked for new users.
+ */
+const Clinics: React.FC = () => {
+  const canManage = usePermission("clinic.manage");
+  const toast = useToast();
+  const { data, error, isLoading, refetch } = useQuery(queryKeys.clinics(), getClinics);
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [dialog, setDialog] = useState<{ clinic?: Clinic } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const setArchived = async (clinic: Clinic, archived: boolean) => {
+    setBusyId(clinic.id);
+    try {
+      await setClinicArchived(clinic.id, archived);
+      if (archived) {
+        toast.success(`Clinic ${clinic.name} archived.`, {
+          action: { label: "Undo", onClick: () => setArchived(clinic, false) },
+        });
+      } else {
+        toast.success(`Clinic ${clinic.name} restored.`);
+      }
+    } catch (err) {
+      toast.error(errorMessage(err, archived ? "Failed to archive clinic." : "Failed to restore clinic."));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center p-10">Loading clinics...</div>;
+  }
+
+  if (!data) {
+    return <ErrorState error={error} fallback="Failed to load clinics" onRetry={refetch} />;
+  }
+
+  const archivedCount = data.filter((c) => c.archived).length;
+  const clinics = showArchived ? data : data.filter((c) => !c.archived);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold text-gray-800">Clinics</h1>
+        {canManage && (
+          <button
+            onClick={() => setDialog({})}
+            className="flex items-center bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark transition-transform transform hover:scale-105"
+          >
+            <PlusIcon className="h-5 w-5 mr-2" />
+            New Clinic
+          </button>
+        )}
+      </div>
+
+      {archivedCount > 0 && (
+        <label className="inline-flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            className="mr-2"
+          />
+          Show archived ({archivedCount})
+        </label>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+        {clinics.length === 0 ? (
+          <div className="p-10 text-center text-gray-500">
+            <BuildingOffice2Icon className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+            No clinics registered yet.
+          </div>
+        ) : (
+          <table className="min-w-full text-sm divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Clinic", "Contact", "Address", "Staff", "Created", ...(canManage ? [""] : [])].map((h) => (
+                  <th
+                    key={h}
+                    className="px-4 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {clinics.map((c) => (
+                <tr key={c.id} className={c.archived ? "bg-gray-50 text-gray-500" : "hover:bg-gray-50"}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">
+                      {c.name}
+                      {c.archived && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-200 text-gray-700">
+                          Archived
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">{c.id}</div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">
+                    <div>{c.contactName || "—"}</div>
+                    {c.contactEmail && (
+                      <a href={`mailto:${c.contactEmail}`} className="block text-xs text-primary hover:underline">
+                        {c.contactEmail}
+                      </a>
+                    )}
+                    {c.phone && <div className="text-xs text-gray-500">{c.phone}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-gray-700">{c.address || "—"}</td>
+                  <td className="px-4 py-3 text-gray-700">{c.staffCount}</td>
+                  <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{formatDate(c.createdAt)}</td>
+                  {canManage && (
+                    <td className="px-4 py-3 text-right whitespace-nowrap space-x-4">
+                      <button
+                        type="button"
+                        onClick={() => setDialog({ clinic: c })}
+                        className="text-primary font-semibold hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setArchived(c, !c.archived)}
+                        disabled={busyId !== null}
+                        className={`font-semibold hover:underline disabled:opacity-50 ${
+                          c.archived ? "text-green-700" : "text-red-600"
+                        }`}
+                      >
+                        {busyId === c.id ? "Saving…" : c.archived ? "Restore" : "Archive"}
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {dialog && <ClinicDialog clinic={dialog.clinic} onClose={() => setDialog(null)} />}
+    </div>
+  );
+};
+
+export default Clinics;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import {
   BarChart,
   Bar,
@@ -12,8 +12,10 @@ import {
   Pie,
   Sector,
 } from "recharts";
-import { getDashboardStats } from "../services/api";
+import { getDashboardStats, queryKeys } from "../services/api";
+import { useQuery } from "../hooks/useQuery";
 import type { DashboardStats } from "../types";
+import ErrorState from "../components/ErrorState";
 import {
   DocumentCheckIcon,
   DocumentMinusIcon,
@@ -168,43 +170,20 @@ function normalizeStats(raw: any): DashboardStats & {
 
 /* ----------------------------- Component ---------------------------- */
 const Dashboard: React.FC = () => {
-  const [stats, setStats] = useState<
-    (DashboardStats & {
-      diagTypeApproved: KV[];
-      diagnosisResultApproved: KV[];
-      bloodTypeApproved: KV[];
-      genderApproved: KV[];
-    }) | null
-  >(null);
-  const [loading, setLoading] = useState(true);
+  // Cached normalized; a report review elsewhere invalidates it.
+  const { data: stats, error, isLoading: loading, refetch } = useQuery(queryKeys.dashboard(), async () =>
+    normalizeStats(await getDashboardStats())
+  );
   const [activeGenderIdx, setActiveGenderIdx] = useState(0);
   const [activeBloodIdx, setActiveBloodIdx] = useState(0);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    (async () => {
-      try {
-        const data = await getDashboardStats();
-        setStats(normalizeStats(data));
-      } catch (e: any) {
-        console.error("Failed to fetch dashboard stats:", e);
-        setError(e?.message ?? "Failed to load dashboard data.");
-      } finally {
-        setLoading(false);
-      }
-    })();
-  }, []);
 
   if (loading) {
     return <div className="text-center p-10">Loading dashboard...</div>;
   }
 
-  if (error || !stats) {
-    return (
-      <div className="text-center p-10 text-red-500">
-        {error ?? "Failed to load dashboard data."}
-      </div>
-    );
+  // A failed background refresh keeps showing the last good numbers.
+  if (!stats) {
+    return <ErrorState error={error} fallback="Failed to load dashboard data." onRetry={refetch} />;
   }
 
   // Approved-only datasets (NO fallbacks to all-status data)
@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeftIcon, ArrowUturnLeftIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { useToast } from "../context/ToastContext";
+import { useQuery } from "../hooks/useQuery";
+import { getDeletedReports, queryKeys, restoreReport } from "../services/api";
+import { errorMessage, isApiError } from "../services/apiErrors";
+import StatusBadge from "../components/StatusBadge";
+import ErrorState from "../components/ErrorState";
+
+function formatDateTime(value?: string): string {
+  if (!value) return "—";
+  const dt = new Date(value);
+  return isNaN(dt.getTime()) ? value : dt.toLocaleString();
+}
+
+/**
+ * Admin view of soft-deleted reports with a per-row restore. Backends that
+ * delete permanently have no /deleted-reports endpoint; the 404 is shown as
+ * "not available" rather than as an error.
+ */
+const DeletedReports: React.FC = () => {
+  const toast = useToast();
+  const navigate = useNavigate();
+  const { data, error, isLoading, refetch } = useQuery(queryKeys.deletedReports(), getDeletedReports);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const restore = async (reportId: string) => {
+    setRestoring(reportId);
+    try {
+      await restoreReport(reportId);
+      toast.success(`Report ${reportId} restored.`, {
+        action: { label: "View report", onClick: () => navigate(`/reports/${reportId}`) },
+      });
+    } catch (err) {
+      console.error(`Failed to restore report ${reportId}:`, err);
+      toast.error(errorMessage(err, "Failed to restore report."));
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const header = (
+    <div>
+      <Link to="/reports" className="flex items-center text-sm text-primary hover:underline mb-2">
+        <ArrowLeftIcon className="h-4 w-4 mr-1" />
+        Back to reports
+      </Link>
+      <h1 className="text-3xl font-bold text-gray-800">Recently Deleted</h1>
+    </div>
+  );
+
+  if (isLoading) {
+    return <div className="text-center p-10">Loading deleted reports...</div>;
+  }
+
+  if (!data && isApiError(error) && error.kind === "notFound") {
+    return (
+      <div className="space-y-6">
+        {header}
+        <div className="bg-white rounded-xl shadow-md p-10 text-center max-w-xl mx-auto">
+          <TrashIcon className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+          <h2 className="text-xl font-bold text-gray-800 mb-2">Not available</h2>
+          <p className="text-gray-600">
+            This server deletes reports permanently, so there is nothing to restore here.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return <ErrorState error={error} fallback="Failed to load deleted reports" onRetry={refetch} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {header}
+      <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+        {data.length === 0 ? (
+          <p className="p-10 text-center text-gray-500">No deleted reports.</p>
+        ) : (
+          <table className="min-w-full text-sm divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Report ID", "Patient", "Clinic", "Status", "Deleted", "Deleted by", ""].map((h) => (
+                  <th
+                    key={h}
+                    className="px-4 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {data.map((r) => (
+                <tr key={r.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 font-medium text-gray-900">{r.id}</td>
+                  <td className="px-4 py-3 text-gray-700">{r.patientName || "—"}</td>
+                  <td className="px-4 py-3 text-gray-700">{r.clinicName || "—"}</td>
+                  <td className="px-4 py-3">
+                    <StatusBadge status={r.status} />
+                  </td>
+                  <td className="px-4 py-3 text-gray-700 whitespace-nowrap">{formatDateTime(r.deletedAt)}</td>
+                  <td className="px-4 py-3 text-gray-700">{r.deletedBy || "—"}</td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => restore(r.id)}
+                      disabled={restoring !== null}
+                      className="inline-flex items-center text-primary font-semibold hover:underline disabled:opacity-50"
+                    >
+                      <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                      {restoring === r.id ? "Restoring…" : "Restore"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeletedReports;
@@ -1,17 +1,34 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useAuth } from "../context/AuthContext";
-import { BeakerIcon, ArrowRightOnRectangleIcon } from "@heroicons/react/24/solid";
+import { BeakerIcon, ArrowRightOnRectangleIcon, UserCircleIcon } from "@heroicons/react/24/solid";
+import type { User } from "../types";
+import { isMockMode } from "../services/config";
 
 const Login: React.FC = () => {
   const { login } = useAuth();
   const [redirecting, setRedirecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const handleLogin = async () => {
+  const mock = isMockMode();
+  const [mockUsers, setMockUsers] = useState<User[]>([]);
+
+  // The demo personas live in the mock backend, which is only loaded in mock mode.
+  useEffect(() => {
+    if (!mock) return;
+    let cancelled = false;
+    import("../services/mockApiService").then(({ MOCK_USERS }) => {
+      if (!cancelled) setMockUsers(MOCK_USERS);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mock]);
+
+  const handleLogin = async (mockUserId?: string) => {
     setError(null);
     setRedirecting(true);
     try {
-      await login(); // Should redirect to Cognito Hosted UI
+      await login(mockUserId); // Should redirect to Cognito Hosted UI (mock: signs straight in)
       // No code runs after a successful redirect.
     } catch (e: any) {
       setRedirecting(false);
@@ -30,31 +47,64 @@ const Login: React.FC = () => {
         <h2 className="text-center text-2xl font-semibold text-gray-600 mb-2">
           Diagnostic Portal
         </h2>
-        <p className="text-center text-gray-500 mb-8">
-          Sign in using our secure authentication provider.
-        </p>
-
-        <button
-          onClick={handleLogin}
-          disabled={redirecting}
-          className="w-full flex items-center justify-center bg-primary text-white font-bold py-3 px-4 rounded-lg hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-transform transform hover:scale-105 disabled:opacity-70 disabled:hover:scale-100"
-          aria-busy={redirecting}
-          aria-disabled={redirecting}
-        >
-          <ArrowRightOnRectangleIcon className="h-5 w-5 mr-2" />
-          {redirecting ? "Redirecting…" : "Proceed to Secure Login"}
-        </button>
+
+        {mock ? (
+          <>
+            <p className="text-center text-gray-500 mb-6">
+              Demo mode: no data leaves this browser. Choose who to sign in as.
+            </p>
+            <ul className="space-y-3">
+              {mockUsers.map((u) => (
+                <li key={u.id}>
+                  <button
+                    onClick={() => handleLogin(u.id)}
+                    disabled={redirecting}
+                    className="w-full flex items-center text-left border border-gray-200 rounded-lg px-4 py-3 hover:border-primary hover:bg-secondary disabled:opacity-70"
+                  >
+                    <UserCircleIcon className="h-8 w-8 text-primary mr-3 flex-shrink-0" />
+                    <span>
+                      <span className="block font-semibold text-gray-800">{u.name}</span>
+                      <span className="block text-sm text-gray-500">
+                        {u.role}
+                        {u.clinicName ? ` · ${u.clinicName}` : ""}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <>
+            <p className="text-center text-gray-500 mb-8">
+              Sign in using our secure authentication provider.
+            </p>
+
+            <button
+              onClick={() => handleLogin()}
+              disabled={redirecting}
+              className="w-full flex items-center justify-center bg-primary text-white font-bold py-3 px-4 rounded-lg hover:bg-primary-dark focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-transform transform hover:scale-105 disabled:opacity-70 disabled:hover:scale-100"
+              aria-busy={redirecting}
+              aria-disabled={redirecting}
+            >
+              <ArrowRightOnRectangleIcon className="h-5 w-5 mr-2" />
+              {redirecting ? "Redirecting…" : "Proceed to Secure Login"}
+            </button>
+          </>
+        )}
 
         {error && (
           <div className="mt-4 text-center text-sm text-red-600">{error}</div>
         )}
 
-        <div className="mt-8 text-center text-xs text-gray-400">
-          <p>
-            You will be redirected to the official MediSys login page to enter
-            your credentials.
-          </p>
-        </div>
+        {!mock && (
+          <div className="mt-8 text-center text-xs text-gray-400">
+            <p>
+              You will be redirected to the official MediSys login page to enter
+              your credentials.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,256 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+import { useToast } from "../context/ToastContext";
+import { usePermission } from "../hooks/usePermission";
+import { deleteKeys, useUndoableDelete } from "../hooks/useUndoableDelete";
+import type { Report } from "../types";
+import { ReportStatus, UserRole } from "../types";
+import {
+  getReportsForScope,
+  queryKeys,
+  reportScopeFor,
+  transitionReport,
+  deleteReport as apiDeleteReport,
+} from "../services/api";
+import { optimisticUpdate } from "../services/queryCache";
+import { useQuery } from "../hooks/useQuery";
+import StatusBadge from "../components/StatusBadge";
+import ErrorState from "../components/ErrorState";
+import { NotFoundError } from "../services/apiErrors";
+import ReviewDialog from "../components/ReviewDialog";
+import ReportHistory from "../components/ReportHistory";
+import type { StatusTransition } from "../services/reportLifecycle";
+import { allowedTransitions, isDeletable, reportStatusLabel } from "../services/reportLifecycle";
+import {
+  ArrowLeftIcon,
+  CheckCircleIcon,
+  XCircleIcon,
+  TrashIcon,
+  LinkIcon,
+  ArrowPathIcon,
+  ArchiveBoxIcon,
+} from "@heroicons/react/24/solid";
+
+/* SECTION: Field row */
+const Field: React.FC<{ label: string; value?: React.ReactNode }> = ({ label, value }) => (
+  <div>
+    <dt className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{label}</dt>
+    <dd className="mt-1 text-gray-900">{value || "—"}</dd>
+  </div>
+);
+
+function formatDateTime(value?: string): string {
+  if (!value) return "";
+  const dt = new Date(value);
+  return isNaN(dt.getTime()) ? value : dt.toLocaleString();
+}
+
+const ReportDetail: React.FC = () => {
+  const { id = "" } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const toast = useToast();
+  const { stageDelete } = useUndoableDelete();
+  const role = user?.role ?? UserRole.CLINIC;
+  const canDelete = usePermission("report.delete");
+  const canViewAudit = usePermission("audit.view");
+
+  const [busy, setBusy] = useState(false);
+  const [decision, setDecision] = useState<ReportStatus.APPROVED | ReportStatus.REJECTED | null>(null);
+
+  /* SECTION: Data fetch — shares the role's report list with the table, so it is usually cached */
+  const scope = reportScopeFor(role);
+  const {
+    data: reports,
+    error: loadError,
+    isLoading: loading,
+    refetch: load,
+  } = useQuery(queryKeys.reports(scope), () => getReportsForScope(scope));
+  const report = reports?.find((r) => r.id === id) ?? null;
+  const error = report
+    ? null
+    : loadError ??
+      (reports ? new NotFoundError(`Report ${id} was not found or you do not have access to it.`) : null);
+
+  /* SECTION: Lifecycle actions — each transition goes to the endpoint that owns it */
+  const handleTransition = async (transition: StatusTransition, note?: string) => {
+    const status = transition.to;
+    setBusy(true);
+    setDecision(null);
+    const rollback = optimisticUpdate<Report[]>(["reports"], (list) =>
+      list.map((r) => (r.id === id ? { ...r, status } : r))
+    );
+    try {
+      await transitionReport(id, transition, note);
+      toast.success(
+        status === ReportStatus.APPROVED || status === ReportStatus.REJECTED
+          ? `Report ${id} ${status.toLowerCase()} successfully.`
+          : `Report ${id} moved to ${reportStatusLabel(status)}.`
+      );
+    } catch (err: any) {
+      console.error(`Failed to update report ${id} status:`, err);
+      rollback();
+      toast.error(err?.message || "Failed to update report status.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Staged like on the list; the "Undo" toast follows the user back to /reports.
+  const handleDelete = () => {
+    stageDelete(deleteKeys.report(id), `Report ${id}`, () => apiDeleteReport(id));
+    navigate("/reports");
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Link copied to clipboard.");
+    } catch {
+      toast.error("Could not copy the link. Copy it from the address bar instead.");
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center p-10">Loading report...</div>;
+  }
+
+  // Only what the lifecycle allows from the current status for this role.
+  const transitions = report ? allowedTransitions(role, report.status) : [];
+
+  return (
+    <div className="space-y-6">
+      {/* SECTION: Header */}
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <Link to="/reports" className="flex items-center text-sm text-primary hover:underline mb-2">
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Back to reports
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-800">Report {id}</h1>
+        </div>
+        {report && (
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={copyLink}
+              className="flex items-center bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+            >
+              <LinkIcon className="h-5 w-5 mr-2" />
+              Copy link
+            </button>
+            {transitions.map((t) =>
+              t.to === ReportStatus.APPROVED ? (
+                <button
+                  key={t.to}
+                  onClick={() => setDecision(ReportStatus.APPROVED)}
+                  disabled={busy}
+                  className="flex items-center bg-accent text-white font-bold py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-60"
+                >
+                  <CheckCircleIcon className="h-5 w-5 mr-2" />
+                  {t.label}
+                </button>
+              ) : t.to === ReportStatus.REJECTED ? (
+                <button
+                  key={t.to}
+                  onClick={() => setDecision(ReportStatus.REJECTED)}
+                  disabled={busy}
+                  className="flex items-center bg-danger text-white font-bold py-2 px-4 rounded-lg hover:opacity-90 disabled:opacity-60"
+                >
+                  <XCircleIcon className="h-5 w-5 mr-2" />
+                  {t.label}
+                </button>
+              ) : (
+                <button
+                  key={t.to}
+                  onClick={() => handleTransition(t)}
+                  disabled={busy}
+                  className="flex items-center bg-white text-gray-800 border border-gray-300 font-bold py-2 px-4 rounded-lg hover:bg-gray-50 disabled:opacity-60"
+                >
+                  {t.to === ReportStatus.ARCHIVED ? (
+                    <ArchiveBoxIcon className="h-5 w-5 mr-2" />
+                  ) : (
+                    <ArrowPathIcon className="h-5 w-5 mr-2" />
+                  )}
+                  {t.label}
+                </button>
+              )
+            )}
+            {canDelete && isDeletable(report.status) && (
+              <button
+                onClick={handleDelete}
+                disabled={busy}
+                className="flex items-center bg-white text-red-600 border border-red-300 font-bold py-2 px-4 rounded-lg hover:bg-red-50 disabled:opacity-60"
+              >
+                <TrashIcon className="h-5 w-5 mr-2" />
+                Delete
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {error != null && <ErrorState error={error} fallback="Failed to fetch report" onRetry={load} />}
+
+      {report && (
+        <>
+          {/* SECTION: Review */}
+          <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+            <div className="flex items-center space-x-3">
+              <h2 className="text-xl font-semibold text-gray-700">Review</h2>
+              <StatusBadge status={report.status} />
+            </div>
+            <dl className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Field label="Submitted" value={formatDateTime(report.submissionDate)} />
+              <Field label="Uploaded by" value={report.uploaderName || report.uploaderId} />
+              <Field label="Clinic" value={report.clinicName} />
+            </dl>
+            <dl>
+              <dt className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Review note</dt>
+              <dd className="mt-1 text-gray-900 whitespace-pre-wrap">
+                {report.reviewNote || <span className="text-gray-400">No note was left.</span>}
+              </dd>
+            </dl>
+          </div>
+
+          {/* SECTION: Patient */}
+          <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-700">Patient</h2>
+            <dl className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Field label="Patient ID" value={report.patientId} />
+              <Field label="Name" value={report.patientName} />
+              <Field label="Gender" value={report.patientGender} />
+              <Field label="Date of Birth" value={report.dateOfBirth} />
+            </dl>
+          </div>
+
+          {/* SECTION: Diagnostics */}
+          <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+            <h2 className="text-xl font-semibold text-gray-700">Diagnostics</h2>
+            <dl className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Field label="Diagnostic Type" value={report.diagnosticType} />
+              <Field label="Diagnosis Result" value={report.diagnosisResult} />
+              <Field label="Blood Type" value={report.bloodType} />
+              <Field label="Last Checked" value={report.lastChecked} />
+            </dl>
+          </div>
+
+          {/* SECTION: History */}
+          {canViewAudit && <ReportHistory reportId={report.id} />}
+        </>
+      )}
+
+      <ReviewDialog
+        decision={decision}
+        subject={`report ${id}`}
+        onConfirm={(note) => {
+          const t = transitions.find((t) => t.to === decision);
+          return t ? handleTransition(t, note) : undefined;
+        }}
+        onClose={() => setDecision(null)}
+      />
+    </div>
+  );
+};
+
+export default ReportDetail;
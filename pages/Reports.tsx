@@ -1,383 +1,585 @@
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useMemo } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
+import { useToast } from "../context/ToastContext";
 import type { Report } from "../types";
 import { ReportStatus, UserRole } from "../types";
 import {
-  getMyReports,
-  getApprovedReports,
-  getAllReports,
+  getReportsForScope,
+  invalidateReports,
+  queryKeys,
+  reportScopeFor,
   reviewReport,
+  transitionReport,
   deleteReport as apiDeleteReport,
-  requestUploadUrl,
 } from "../services/api";
+import { batchInvalidations, optimisticUpdate } from "../services/queryCache";
+import { useQuery } from "../hooks/useQuery";
+import type { CsvValidationResult } from "../services/csvValidation";
+import { validateReportCsvFile } from "../services/csvValidation";
+import CsvPreview from "../components/CsvPreview";
+import StatusBadge from "../components/StatusBadge";
+import ErrorState from "../components/ErrorState";
+import ReviewDialog from "../components/ReviewDialog";
+import BulkResultSummary from "../components/BulkResultSummary";
+import type { BulkItemResult } from "../components/BulkResultSummary";
+import { mapWithConcurrency } from "../services/concurrency";
+import type { StatusTransition } from "../services/reportLifecycle";
+import { allowedTransitions, isAwaitingReview, isDeletable, reportStatusLabel } from "../services/reportLifecycle";
+import ReportFilterBar from "../components/ReportFilterBar";
+import SortableHeader from "../components/SortableHeader";
+import { useReportQuery, ALL_ROWS } from "../hooks/useReportQuery";
+import { paginate } from "../services/tableQuery";
+import { useVirtualRows } from "../hooks/useVirtualRows";
+import Pagination from "../components/Pagination";
+import ExportDialog from "../components/ExportDialog";
+import type { ExportColumnKey } from "../services/exportReports";
+import { ArrowDownTrayIcon, ArchiveBoxXMarkIcon } from "@heroicons/react/24/outline";
+import { applyReportFilters, sortReports } from "../services/reportFilters";
+import UploadProgress from "../components/UploadProgress";
+import { useReportUpload } from "../hooks/useReportUpload";
+import { usePermission } from "../hooks/usePermission";
+import { deleteKeys, useUndoableDelete } from "../hooks/useUndoableDelete";
 import {
   PlusIcon,
   CheckCircleIcon,
   XCircleIcon,
   TrashIcon,
-  ClockIcon,
+  ArrowPathIcon,
+  ArchiveBoxIcon,
 } from "@heroicons/react/24/solid";
 
-/* SECTION: Role helpers — safe fallback if AuthContext isn't populated yet */
-function getJwtGroups(): string[] {
-  try {
-    const token = localStorage.getItem("cognito_id_token");
-    if (!token) return [];
-    const base64Url = token.split(".")[1];
-    if (!base64Url) return [];
-    const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
-    const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
-    const payload = JSON.parse(atob(padded));
-    return payload["cognito:groups"] || [];
-  } catch {
-    return [];
-  }
-}
-function roleFromGroups(groups: string[]): UserRole {
-  if (!groups || !groups.length) return UserRole.CLINIC;
-  if (groups.includes("MedisysAdmin") || groups.includes("MedSysAdmin"))
-    return UserRole.ADMIN;
-  if (groups.includes("MedisysStaff") || groups.includes("MedSysStaff"))
-    return UserRole.STAFF;
-  return UserRole.CLINIC;
+// Parallel review/delete calls during bulk actions.
+const BULK_CONCURRENCY = 4;
+
+function toBulkResults(ids: string[], outcomes: PromiseSettledResult<unknown>[]): BulkItemResult[] {
+  return outcomes.map((o, i) => ({
+    id: ids[i],
+    ok: o.status === "fulfilled",
+    error: o.status === "rejected" ? o.reason?.message ?? String(o.reason) : undefined,
+  }));
 }
 
-/* SECTION: UI helper — consistent status badge */
-const getStatusBadge = (status: ReportStatus) => {
-  switch (status) {
-    case ReportStatus.APPROVED:
-      return (
-        <span className="px-2 py-1 text-xs font-semibold text-green-800 bg-green-200 rounded-full">
-          Approved
-        </span>
-      );
-    case ReportStatus.PENDING:
-      return (
-        <span className="px-2 py-1 text-xs font-semibold text-yellow-800 bg-yellow-200 rounded-full">
-          Pending
-        </span>
-      );
-    case ReportStatus.REJECTED:
-      return (
-        <span className="px-2 py-1 text-xs font-semibold text-red-800 bg-red-200 rounded-full">
-          Rejected
-        </span>
-      );
-    default:
-      return (
-        <span className="px-2 py-1 text-xs font-semibold text-gray-800 bg-gray-200 rounded-full">
-          Unknown
-        </span>
-      );
-  }
-};
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+// "All rows" mode switches to windowed rendering past this many rows.
+const VIRTUALIZE_THRESHOLD = 100;
+const ROW_HEIGHT = 53;
+const VIEWPORT_HEIGHT = 640;
+
+// Staff export defaults to the columns their read-only table shows.
+const STAFF_EXPORT_COLUMNS: ExportColumnKey[] = [
+  "id",
+  "patientId",
+  "patientName",
+  "diagnosticType",
+  "diagnosisResult",
+  "bloodType",
+  "patientGender",
+  "dateOfBirth",
+  "lastChecked",
+];
 
 const Reports: React.FC = () => {
   const { user } = useAuth();
+  const toast = useToast();
+  const navigate = useNavigate();
 
-  /* SECTION: Role detection — prefer context, fall back to JWT groups */
-  const safeRole: UserRole = useMemo(() => {
-    if (user?.role) return user.role;
-    return roleFromGroups(getJwtGroups());
-  }, [user?.role]);
+  const role = user?.role ?? UserRole.CLINIC;
+  const canReview = usePermission("report.review");
+  const canDelete = usePermission("report.delete");
+  const canUpload = usePermission("report.upload");
+  const canResubmit = usePermission("report.resubmit");
+  const canReprocess = usePermission("report.reprocess");
+  const canArchive = usePermission("report.archive");
+  // Selection only exists to drive bulk review/delete.
+  const canSelect = canReview || canDelete;
+  // Row actions come from the transition table, so any lifecycle permission needs the column.
+  const showActions = canSelect || canResubmit || canReprocess || canArchive;
 
   /* SECTION: State — reports list, UX state, and toasts */
-  const [reports, setReports] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    filters,
+    sort,
+    page,
+    pageSize,
+    setFilter,
+    toggleSort,
+    resetFilters,
+    setPage,
+    setPageSize,
+  } = useReportQuery();
   const [showUploadModal, setShowUploadModal] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [notice, setNotice] = useState<{ type: "success" | "error"; text: string } | null>(null);
-
-  const flash = (type: "success" | "error", text: string) => {
-    setNotice({ type, text });
-    setTimeout(() => setNotice(null), 5000);
-  };
+  const [showExport, setShowExport] = useState(false);
+  const { state: uploadState, isBusy: isUploading, upload, cancel: cancelUpload, reset: resetUpload } =
+    useReportUpload();
+  const [selectedCsv, setSelectedCsv] = useState<{ file: File; result: CsvValidationResult } | null>(null);
+  const [reviewTarget, setReviewTarget] = useState<{
+    reportIds: string[];
+    decision: ReportStatus.APPROVED | ReportStatus.REJECTED;
+  } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkRunning, setBulkRunning] = useState(false);
+  const [bulkResult, setBulkResult] = useState<{
+    action: string;
+    results: BulkItemResult[];
+    skipped: number;
+  } | null>(null);
 
-  const isClinic = safeRole === UserRole.CLINIC;
-  const isAdmin = safeRole === UserRole.ADMIN;
-  const isStaff = safeRole === UserRole.STAFF;
+  const isClinic = role === UserRole.CLINIC;
+  const isStaff = role === UserRole.STAFF;
 
-  /* SECTION: Data fetch — role-aware sources; tolerant to shapes */
-  const fetchReports = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      if (isClinic) {
-        const data = await getMyReports();
-        setReports((data as unknown as any[]) ?? []);
-      } else if (isStaff) {
-        const data = await getApprovedReports();
-        const arr = Array.isArray(data) ? data : [];
-        arr
-          .sort((a: any, b: any) =>
-            String(a.UploadTime ?? "").localeCompare(String(b.UploadTime ?? "")
-            )
-          )
-          .reverse();
-        setReports(arr);
-      } else {
-        // Admin — may return normalized or raw; render tolerantly
-        const raw = (await getAllReports()) as any[];
-        setReports(Array.isArray(raw) ? raw : []);
-      }
-    } catch (err: any) {
-      console.error("Failed to fetch reports:", err);
-      setError(err?.message ?? "Failed to fetch reports");
-      setReports([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [isClinic, isStaff]);
+  /* SECTION: Data fetch — role-aware sources via the query cache; rows arrive normalized */
+  const scope = reportScopeFor(role);
+  const {
+    data: cachedReports,
+    error,
+    isLoading: loading,
+    refetch: fetchReports,
+  } = useQuery(queryKeys.reports(scope), () => getReportsForScope(scope));
+  const { stageDelete, isPending, pendingVersion } = useUndoableDelete();
+  // Rows staged for deletion disappear now; the API call waits out the undo window.
+  const reports = useMemo(
+    () => (cachedReports ?? []).filter((r) => !isPending(deleteKeys.report(r.id))),
+    [cachedReports, isPending, pendingVersion]
+  );
 
-  useEffect(() => {
-    fetchReports();
-  }, [fetchReports]);
+  // Show a review decision before the server confirms it; the returned function undoes it.
+  const applyStatusLocally = (reportIds: string[], status: ReportStatus) => {
+    const ids = new Set(reportIds);
+    return optimisticUpdate<Report[]>(["reports"], (list) =>
+      list.map((r) => (ids.has(r.id) ? { ...r, status } : r))
+    );
+  };
 
-  /* SECTION: Actions — Admin approve/reject/delete with success/error flashes */
-  const handleStatusChange = async (reportId: string, status: ReportStatus) => {
+  /* SECTION: Actions — lifecycle moves from the transition table, plus delete, with toasts */
+  const handleTransition = async (reportId: string, transition: StatusTransition, note?: string) => {
+    const status = transition.to;
+    setReviewTarget(null);
+    const rollback = applyStatusLocally([reportId], status);
     try {
-      await reviewReport(reportId, {
-        status:
-          status === ReportStatus.APPROVED
-            ? "Approved"
-            : status === ReportStatus.REJECTED
-            ? "Rejected"
-            : "Pending",
-      });
-      await fetchReports();
+      await transitionReport(reportId, transition, note);
+      const viewReport = { label: "View report", onClick: () => navigate(`/reports/${reportId}`) };
       if (status === ReportStatus.APPROVED) {
-        flash("success", `Report ${reportId} approved successfully.`);
+        toast.success(`Report ${reportId} approved successfully.`, { action: viewReport });
       } else if (status === ReportStatus.REJECTED) {
-        flash("success", `Report ${reportId} rejected successfully.`);
+        toast.success(`Report ${reportId} rejected successfully.`, { action: viewReport });
       } else {
-        flash("success", `Report ${reportId} status updated.`);
+        toast.success(`Report ${reportId} moved to ${reportStatusLabel(status)}.`, { action: viewReport });
       }
     } catch (err: any) {
       console.error(`Failed to update report ${reportId} status:`, err);
-      flash("error", err?.message || "Failed to update report status.");
+      rollback();
+      toast.error(err?.message || "Failed to update report status.");
     }
   };
 
-  const handleDelete = async (reportId: string) => {
-    if (window.confirm("Are you sure you want to delete this report?")) {
-      try {
-        await apiDeleteReport(reportId);
-        await fetchReports();
-        flash("success", `Report ${reportId} deleted successfully.`);
-      } catch (error: any) {
-        console.error(`Failed to delete report ${reportId}:`, error);
-        flash("error", error?.message || "Failed to delete report.");
+  // No confirm prompt: the delete is staged behind an "Undo" toast instead.
+  const handleDelete = (reportId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      next.delete(reportId);
+      return next;
+    });
+    stageDelete(deleteKeys.report(reportId), `Report ${reportId}`, () => apiDeleteReport(reportId));
+  };
+
+  /* SECTION: Bulk actions (Admin) — bounded concurrency, one refetch at the end */
+  const selectedReports = reports.filter((r) => selectedIds.has(r.id));
+  const selectedPending = selectedReports.filter((r) => isAwaitingReview(r.status));
+  const selectedDeletable = selectedReports.filter((r) => isDeletable(r.status));
+
+  const toggleSelected = (reportId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(reportId)) next.delete(reportId);
+      else next.add(reportId);
+      return next;
+    });
+  };
+
+  const runBulk = async (
+    action: string,
+    ids: string[],
+    skipped: number,
+    op: (reportId: string) => Promise<unknown>
+  ) => {
+    setBulkRunning(true);
+    setBulkResult(null);
+    // Per-item invalidations are held back so the lists reload once, after the last call.
+    const outcomes = await batchInvalidations(async () => {
+      const settled = await mapWithConcurrency(ids, BULK_CONCURRENCY, op);
+      // Also covers the all-failed case, which must undo any optimistic rows.
+      invalidateReports();
+      return settled;
+    });
+    setBulkResult({ action, results: toBulkResults(ids, outcomes), skipped });
+    setSelectedIds(new Set());
+    setBulkRunning(false);
+  };
+
+  const handleBulkReview = async (
+    reportIds: string[],
+    status: ReportStatus.APPROVED | ReportStatus.REJECTED,
+    note?: string
+  ) => {
+    setReviewTarget(null);
+    applyStatusLocally(reportIds, status);
+    await runBulk(
+      status === ReportStatus.APPROVED ? "Approve" : "Reject",
+      reportIds,
+      selectedReports.length - reportIds.length,
+      (reportId) => reviewReport(reportId, { status, ...(note ? { note } : {}) })
+    );
+  };
+
+  // No confirm prompt: the batch is staged behind one "Undo" toast, like single deletes.
+  const handleBulkDelete = () => {
+    const ids = selectedDeletable.map((r) => r.id);
+    if (!ids.length) return;
+    setSelectedIds(new Set());
+    const label = `${ids.length} report${ids.length === 1 ? "" : "s"}`;
+    // One staged action for the whole batch: the deletes run together and the lists reload once.
+    stageDelete(ids.map(deleteKeys.report), label, async () => {
+      const outcomes = await batchInvalidations(() =>
+        mapWithConcurrency(ids, BULK_CONCURRENCY, apiDeleteReport)
+      );
+      const results = toBulkResults(ids, outcomes);
+      const failed = results.filter((r) => !r.ok).length;
+      // Rows that failed come back once the batch settles; list them like other bulk actions.
+      if (failed) {
+        setBulkResult({ action: "Delete", results, skipped: selectedReports.length - ids.length });
+        toast.error(`${failed} of ${label} could not be deleted.`);
       }
-    }
+    });
   };
 
-  /* SECTION: Upload (Clinic) — presigned URL flow; no base64 anywhere */
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  /* SECTION: Upload (Clinic) — validate + preview locally, then presigned URL flow */
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const inputEl = e.target as HTMLInputElement;
     if (!(inputEl.files && inputEl.files[0])) return;
 
     const file = inputEl.files[0];
-    if (!/\.csv$/i.test(file.name)) {
-      alert("Please upload a .csv file (Excel .xlsx won't be processed).");
+    resetUpload();
+    try {
+      setSelectedCsv({ file, result: await validateReportCsvFile(file) });
+    } catch (err: any) {
+      console.error("CSV validation failed", err);
+      toast.error(err?.message || "Could not read the selected file.");
+    } finally {
       inputEl.value = "";
-      return;
     }
+  };
+
+  const closeUploadModal = () => {
+    resetUpload();
+    setShowUploadModal(false);
+    setSelectedCsv(null);
+  };
 
-    setIsUploading(true);
-    setError(null);
+  const handleFileUpload = async () => {
+    if (!selectedCsv?.result.isValid) return;
+    const { file } = selectedCsv;
 
-    try {
-      const contentType = "text/csv";
-      const presign: any = await requestUploadUrl(file.name, contentType);
-      const uploadUrl: string = presign.uploadUrl;
-
-      const put = await fetch(uploadUrl, {
-        method: "PUT",
-        headers: { "Content-Type": contentType },
-        body: file,
-      });
-
-      if (!put.ok) {
-        const t = await put.text();
-        throw new Error(`S3 upload failed: ${put.status} ${t || put.statusText}`);
-      }
+    // Failures and cancellations keep the modal open so the user can retry.
+    const result = await upload(file);
+    if (!result) return;
 
-      flash(
-        "success",
-        `Report file "${file.name}" uploaded successfully. Processing has started.`
-      );
-      await fetchReports();
-    } catch (err: any) {
-      console.error("Upload failed", err);
-      flash("error", err?.message || "Upload failed. See console for details.");
-    } finally {
-      setIsUploading(false);
-      setShowUploadModal(false);
-      if (inputEl) inputEl.value = "";
-    }
+    toast.success(`Report file "${file.name}" uploaded successfully. Processing has started.`);
+    closeUploadModal();
   };
 
+  /* SECTION: Search, filter & sort — state lives in the URL query string */
+  const visibleReports = useMemo(
+    () => sortReports(applyReportFilters(reports, filters), sort),
+    [reports, filters, sort]
+  );
+  const allVisibleSelected =
+    visibleReports.length > 0 && visibleReports.every((r) => selectedIds.has(r.id));
+  const toggleAllVisible = () =>
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleReports.map((r) => r.id)));
+
+  /* SECTION: Pagination — fixed pages, or every row with windowed rendering */
+  const { currentPage, pageRows: pagedReports } = paginate<Report>(visibleReports, page, pageSize);
+  const isVirtual = pageSize === ALL_ROWS && pagedReports.length > VIRTUALIZE_THRESHOLD;
+  const win = useVirtualRows(pagedReports.length, {
+    rowHeight: ROW_HEIGHT,
+    viewportHeight: VIEWPORT_HEIGHT,
+    enabled: isVirtual,
+  });
+  const windowRows = pagedReports.slice(win.start, win.end);
+  const spacer = (height: number, colSpan: number) =>
+    height > 0 ? (
+      <tr aria-hidden="true">
+        <td colSpan={colSpan} style={{ height, padding: 0 }} />
+      </tr>
+    ) : null;
+
   if (loading) {
     return <div className="text-center p-10">Loading reports...</div>;
   }
 
-  /* SECTION: Rendering helpers — normalize status across shapes */
-  const asStatusEnum = (r: any): ReportStatus => {
-    const s = String(r?.status ?? r?.Status ?? "PENDING").toUpperCase();
-    return s === "APPROVED"
-      ? ReportStatus.APPROVED
-      : s === "REJECTED"
-      ? ReportStatus.REJECTED
-      : ReportStatus.PENDING;
-  };
-
   const headerTitle = isClinic ? "My Reports" : isStaff ? "Approved Reports" : "All Reports";
+  const detailColSpan = 12 + (isClinic ? 0 : 1) + (canSelect ? 1 : 0) + (showActions ? 1 : 0);
 
   return (
     <div className="space-y-6">
-      {/* SECTION: Header & upload CTA (Clinic only) */}
+      {/* SECTION: Header, export & upload CTA (upload is Clinic only) */}
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold text-gray-800">{headerTitle}</h1>
-        {isClinic && (
+        <div className="flex items-center space-x-3">
+          {canDelete && (
+            <Link
+              to="/reports/deleted"
+              className="flex items-center text-gray-600 font-semibold py-2 px-3 rounded-lg hover:bg-gray-200"
+            >
+              <ArchiveBoxXMarkIcon className="h-5 w-5 mr-2" />
+              Recently deleted
+            </Link>
+          )}
           <button
-            onClick={() => {
-              setNotice(null);
-              setShowUploadModal(true);
-            }}
-            className="flex items-center bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark transition-transform transform hover:scale-105 disabled:opacity-60"
-            disabled={isUploading}
+            onClick={() => setShowExport(true)}
+            disabled={visibleReports.length === 0}
+            className="flex items-center bg-white text-primary border border-primary font-bold py-2 px-4 rounded-lg hover:bg-secondary disabled:opacity-50"
           >
-            <PlusIcon className="h-5 w-5 mr-2" />
-            Upload Report
+            <ArrowDownTrayIcon className="h-5 w-5 mr-2" />
+            Export
           </button>
-        )}
+          {canUpload && (
+            <button
+              onClick={() => setShowUploadModal(true)}
+              className="flex items-center bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark transition-transform transform hover:scale-105 disabled:opacity-60"
+              disabled={isUploading}
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              Upload Report
+            </button>
+          )}
+        </div>
       </div>
 
-      {/* SECTION: Toasts & errors */}
-      {notice && (
-        <div
-          className={`rounded-md px-4 py-3 ${
-            notice.type === "success"
-              ? "bg-green-50 text-green-800 border border-green-200"
-              : "bg-red-50 text-red-800 border border-red-200"
-          }`}
-        >
-          {notice.text}
+      <ExportDialog
+        key={String(showExport)}
+        open={showExport}
+        reports={visibleReports}
+        defaultColumns={isStaff ? STAFF_EXPORT_COLUMNS : undefined}
+        onClose={() => setShowExport(false)}
+      />
+
+      {/* SECTION: Errors & bulk results */}
+      {error != null && <ErrorState error={error} fallback="Failed to fetch reports" onRetry={fetchReports} />}
+      {bulkResult && (
+        <BulkResultSummary
+          action={bulkResult.action}
+          results={bulkResult.results}
+          skipped={bulkResult.skipped}
+          onDismiss={() => setBulkResult(null)}
+        />
+      )}
+
+      <ReportFilterBar
+        reports={reports}
+        filters={filters}
+        onChange={setFilter}
+        onReset={resetFilters}
+        showStatus={!isStaff}
+        showClinic={!isClinic}
+        resultCount={visibleReports.length}
+      />
+
+      {/* SECTION: Bulk toolbar (review/delete permissions) */}
+      {canSelect && selectedIds.size > 0 && (
+        <div className="flex flex-wrap items-center gap-3 bg-white rounded-xl shadow-md px-4 py-3">
+          <span className="text-sm font-semibold text-gray-700">{selectedIds.size} selected</span>
+          {canReview && (
+            <>
+              <button
+                onClick={() =>
+                  setReviewTarget({ reportIds: selectedPending.map((r) => r.id), decision: ReportStatus.APPROVED })
+                }
+                disabled={bulkRunning || selectedPending.length === 0}
+                className="flex items-center text-sm bg-accent text-white font-bold py-1.5 px-3 rounded-lg hover:opacity-90 disabled:bg-gray-400"
+              >
+                <CheckCircleIcon className="h-4 w-4 mr-1" />
+                Approve ({selectedPending.length})
+              </button>
+              <button
+                onClick={() =>
+                  setReviewTarget({ reportIds: selectedPending.map((r) => r.id), decision: ReportStatus.REJECTED })
+                }
+                disabled={bulkRunning || selectedPending.length === 0}
+                className="flex items-center text-sm bg-danger text-white font-bold py-1.5 px-3 rounded-lg hover:opacity-90 disabled:bg-gray-400"
+              >
+                <XCircleIcon className="h-4 w-4 mr-1" />
+                Reject ({selectedPending.length})
+              </button>
+            </>
+          )}
+          {canDelete && (
+            <button
+              onClick={handleBulkDelete}
+              disabled={bulkRunning || selectedDeletable.length === 0}
+              className="flex items-center text-sm bg-white text-red-600 border border-red-300 font-bold py-1.5 px-3 rounded-lg hover:bg-red-50 disabled:opacity-50"
+            >
+              <TrashIcon className="h-4 w-4 mr-1" />
+              Delete ({selectedDeletable.length})
+            </button>
+          )}
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            disabled={bulkRunning}
+            className="text-sm text-gray-600 underline hover:text-gray-800"
+          >
+            Clear selection
+          </button>
+          {bulkRunning && <span className="text-sm text-gray-500">Working…</span>}
         </div>
       )}
-      {error && <div className="text-center p-4 text-red-500">{error}</div>}
 
       {/* SECTION: Tables — admin/clinic detailed; staff read-only */}
       <div className="bg-white rounded-xl shadow-md overflow-hidden">
-        <div className="overflow-x-auto">
+        <div
+          className="overflow-x-auto"
+          style={isVirtual ? { maxHeight: VIEWPORT_HEIGHT, overflowY: "auto" } : undefined}
+          onScroll={win.onScroll}
+        >
           {!isStaff ? (
             /* ---------- Admin & Clinic detailed table ---------- */
             <table className="min-w-full text-sm divide-y divide-gray-200">
-              <thead className="bg-gray-50">
+              <thead className="bg-gray-50 sticky top-0 z-10">
                 <tr>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Report ID</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Patient ID</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Patient Name</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Diagnostic Type</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Diagnosis Result</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Blood Type</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Patient Gender</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Date of Birth</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Last Checked</th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Submitted</th>
-                  {!isClinic && (
-                    <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Clinic</th>
+                  {canSelect && (
+                    <th className="pl-6 py-3 text-left">
+                      <input
+                        type="checkbox"
+                        checked={allVisibleSelected}
+                        onChange={toggleAllVisible}
+                        aria-label="Select all reports"
+                      />
+                    </th>
                   )}
+                  <SortableHeader label="Report ID" sortKey="id" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Patient ID" sortKey="patientId" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Patient Name" sortKey="patientName" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Diagnostic Type" sortKey="diagnosticType" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Diagnosis Result" sortKey="diagnosisResult" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Blood Type" sortKey="bloodType" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Patient Gender" sortKey="patientGender" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Date of Birth" sortKey="dateOfBirth" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Last Checked" sortKey="lastChecked" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Submitted" sortKey="submissionDate" active={sort} onSort={toggleSort} />
                   {!isClinic && (
-                    <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Status</th>
+                    <SortableHeader label="Clinic" sortKey="clinicName" active={sort} onSort={toggleSort} />
                   )}
-                  {!isClinic && (
+                  <SortableHeader label="Status" sortKey="status" active={sort} onSort={toggleSort} />
+                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Review Note</th>
+                  {showActions && (
                     <th className="px-6 py-3 text-center font-semibold text-gray-600 uppercase tracking-wider">Actions</th>
                   )}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {reports.map((r: any, idx: number) => {
-                  const reportId = r?.ReportId ?? r?.REPORT_ID ?? r?.id ?? r?.reportId ?? idx;
-                  const patientId = r?.PATIENT_ID ?? r?.patientId ?? "";
-                  const fullName =
-                    [r?.PATIENTFIRSTNAME, r?.PATIENTLASTNAME].filter(Boolean).join(" ") ||
-                    r?.patientName ||
-                    patientId ||
-                    "—";
-                  const diagType = r?.DIAGNOSTICTYPE ?? r?.diagnosticType ?? "—";
-                  const diagResult = r?.DIAGNOSISRESULT ?? "—";
-                  const bloodType = r?.BLOODTYPE ?? "—";
-                  const gender = r?.PATIENTGENDER ?? "—";
-                  const dob = r?.DATEOFBIRTH ?? "—";
-                  const lastChecked = r?.LASTCHECKED ?? r?.lastChecked ?? "—";
-                  const submitted = r?.UploadTime ?? r?.submissionDate ?? "—";
-                  const clinic = r?.CLINIC_ID ?? r?.clinicName ?? "—";
-                  const statusEnum = asStatusEnum(r);
+                {spacer(win.padTop, detailColSpan)}
+                {windowRows.map((r) => {
+                  const reportId = r.id;
+                  // Same actions as the detail page: whatever the lifecycle allows this role from here.
+                  const transitions = showActions ? allowedTransitions(role, r.status) : [];
 
                   return (
-                    <tr key={String(reportId)} className="hover:bg-gray-50">
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-900 font-medium">{String(reportId)}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{patientId || "—"}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-900 font-medium">{fullName}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{diagType}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{diagResult}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{bloodType}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{gender}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{dob}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{lastChecked}</td>
-                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{submitted}</td>
-                      {!isClinic && (
-                        <td className="px-6 py-4 whitespace-nowrap text-gray-500">{clinic}</td>
+                    <tr key={reportId} className={selectedIds.has(reportId) ? "bg-secondary" : "hover:bg-gray-50"}>
+                      {canSelect && (
+                        <td className="pl-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(reportId)}
+                            onChange={() => toggleSelected(reportId)}
+                            aria-label={`Select report ${reportId}`}
+                          />
+                        </td>
                       )}
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-900 font-medium">
+                        <Link to={`/reports/${encodeURIComponent(reportId)}`} className="text-primary hover:underline">
+                          {reportId}
+                        </Link>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.patientId || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-900 font-medium">{r.patientName || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.diagnosticType || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.diagnosisResult || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.bloodType || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.patientGender}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.dateOfBirth || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.lastChecked || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.submissionDate || "—"}</td>
                       {!isClinic && (
-                        <td className="px-6 py-4 whitespace-nowrap">{getStatusBadge(statusEnum)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-gray-500">{r.clinicName || "—"}</td>
                       )}
-                      {!isClinic && (
+                      <td className="px-6 py-4 whitespace-nowrap"><StatusBadge status={r.status} /></td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-500 max-w-xs truncate" title={r.reviewNote}>
+                        {r.reviewNote || "—"}
+                      </td>
+                      {showActions && (
                         <td className="px-6 py-4 whitespace-nowrap text-center">
-                          {statusEnum === ReportStatus.PENDING ? (
-                            <div className="flex items-center justify-center space-x-2">
-                              <button
-                                onClick={() =>
-                                  handleStatusChange(String(reportId), ReportStatus.APPROVED)
-                                }
-                                className="text-green-500 hover:text-green-700"
-                                title="Approve"
-                              >
-                                <CheckCircleIcon className="h-5 w-5" />
-                              </button>
+                          <div className="flex items-center justify-center space-x-2">
+                            {transitions.map((t) =>
+                              t.to === ReportStatus.APPROVED ? (
+                                <button
+                                  key={t.to}
+                                  onClick={() =>
+                                    setReviewTarget({ reportIds: [reportId], decision: ReportStatus.APPROVED })
+                                  }
+                                  className="text-green-500 hover:text-green-700"
+                                  title={t.label}
+                                >
+                                  <CheckCircleIcon className="h-5 w-5" />
+                                </button>
+                              ) : t.to === ReportStatus.REJECTED ? (
+                                <button
+                                  key={t.to}
+                                  onClick={() =>
+                                    setReviewTarget({ reportIds: [reportId], decision: ReportStatus.REJECTED })
+                                  }
+                                  className="text-red-500 hover:text-red-700"
+                                  title={t.label}
+                                >
+                                  <XCircleIcon className="h-5 w-5" />
+                                </button>
+                              ) : (
+                                <button
+                                  key={t.to}
+                                  onClick={() => handleTransition(reportId, t)}
+                                  className="text-gray-500 hover:text-primary"
+                                  title={t.label}
+                                >
+                                  {t.to === ReportStatus.ARCHIVED ? (
+                                    <ArchiveBoxIcon className="h-5 w-5" />
+                                  ) : (
+                                    <ArrowPathIcon className="h-5 w-5" />
+                                  )}
+                                </button>
+                              )
+                            )}
+                            {isDeletable(r.status) && canDelete && (
                               <button
-                                onClick={() =>
-                                  handleStatusChange(String(reportId), ReportStatus.REJECTED)
-                                }
-                                className="text-red-500 hover:text-red-700"
-                                title="Reject"
-                              >
-                                <XCircleIcon className="h-5 w-5" />
-                              </button>
-                            </div>
-                          ) : (
-                            <div className="flex items-center justify-center space-x-2">
-                              <button
-                                onClick={() => handleDelete(String(reportId))}
+                                onClick={() => handleDelete(reportId)}
                                 className="text-gray-500 hover:text-red-700"
                                 title="Delete"
                               >
                                 <TrashIcon className="h-5 w-5" />
                               </button>
-                            </div>
-                          )}
+                            )}
+                          </div>
                         </td>
                       )}
                     </tr>
                   );
                 })}
 
-                {reports.length === 0 && (
+                {spacer(win.padBottom, detailColSpan)}
+
+                {visibleReports.length === 0 && (
                   <tr>
                     <td
-                      colSpan={isClinic ? 10 : 13}
+                      colSpan={detailColSpan}
                       className="px-6 py-8 text-center text-gray-500"
                     >
                       No reports to display.
@@ -389,77 +591,60 @@ const Reports: React.FC = () => {
           ) : (
             /* ---------- MediSys Staff read-only table (approved only) ---------- */
             <table className="min-w-full text-sm divide-y divide-gray-200">
-              <thead className="bg-gray-50">
+              <thead className="bg-gray-50 sticky top-0 z-10">
                 <tr>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Report ID
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Patient ID
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Patient Name
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Diagnostic Type
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Diagnosis Result
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Blood Type
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Patient Gender
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Date of Birth
-                  </th>
-                  <th className="px-6 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">
-                    Last Checked
-                  </th>
+                  <SortableHeader label="Report ID" sortKey="id" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Patient ID" sortKey="patientId" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Patient Name" sortKey="patientName" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Diagnostic Type" sortKey="diagnosticType" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Diagnosis Result" sortKey="diagnosisResult" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Blood Type" sortKey="bloodType" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Patient Gender" sortKey="patientGender" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Date of Birth" sortKey="dateOfBirth" active={sort} onSort={toggleSort} />
+                  <SortableHeader label="Last Checked" sortKey="lastChecked" active={sort} onSort={toggleSort} />
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {reports.map((r: any, idx: number) => {
-                  const reportId = r?.ReportId ?? r?.REPORT_ID ?? idx;
-                  const fullName = [r?.PATIENTFIRSTNAME, r?.PATIENTLASTNAME]
-                    .filter(Boolean)
-                    .join(" ");
+                {spacer(win.padTop, 9)}
+                {windowRows.map((r) => {
                   return (
-                    <tr key={reportId} className="hover:bg-gray-50">
+                    <tr key={r.id} className="hover:bg-gray-50">
                       <td className="px-6 py-4 whitespace-nowrap text-gray-900 font-medium">
-                        {String(reportId)}
+                        <Link to={`/reports/${encodeURIComponent(r.id)}`} className="text-primary hover:underline">
+                          {r.id}
+                        </Link>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-500">
-                        {r?.PATIENT_ID || "—"}
+                        {r.patientId || "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-900 font-medium">
-                        {fullName || r?.PATIENT_ID || "—"}
+                        {r.patientName || "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-500">
-                        {r?.DIAGNOSTICTYPE || "—"}
+                        {r.diagnosticType || "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-500">
-                        {r?.DIAGNOSISRESULT || "—"}
+                        {r.diagnosisResult || "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-500">
-                        {r?.BLOODTYPE || "—"}
+                        {r.bloodType || "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-500">
-                        {r?.PATIENTGENDER || "—"}
+                        {r.patientGender}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-500">
-                        {r?.DATEOFBIRTH || "—"}
+                        {r.dateOfBirth || "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-gray-500">
-                        {r?.LASTCHECKED || "—"}
+                        {r.lastChecked || "—"}
                       </td>
                     </tr>
                   );
                 })}
 
-                {reports.length === 0 && (
+                {spacer(win.padBottom, 9)}
+
+                {visibleReports.length === 0 && (
                   <tr>
                     <td colSpan={9} className="px-6 py-8 text-center text-gray-500">
                       No approved reports to display.
@@ -470,33 +655,88 @@ const Reports: React.FC = () => {
             </table>
           )}
         </div>
+        <Pagination
+          page={currentPage}
+          pageSize={pageSize}
+          total={visibleReports.length}
+          pageSizeOptions={PAGE_SIZE_OPTIONS}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+          allLabel="All"
+        />
       </div>
 
+      {/* SECTION: Review dialog (Admin) */}
+      <ReviewDialog
+        decision={reviewTarget?.decision ?? null}
+        subject={
+          reviewTarget?.reportIds.length === 1
+            ? `report ${reviewTarget.reportIds[0]}`
+            : `${reviewTarget?.reportIds.length ?? 0} reports`
+        }
+        onConfirm={(note) => {
+          if (!reviewTarget) return;
+          const { reportIds, decision } = reviewTarget;
+          if (reportIds.length > 1) return handleBulkReview(reportIds, decision, note);
+          const report = reports.find((r) => r.id === reportIds[0]);
+          const transition = report && allowedTransitions(role, report.status).find((t) => t.to === decision);
+          return transition ? handleTransition(reportIds[0], transition, note) : undefined;
+        }}
+        onClose={() => setReviewTarget(null)}
+      />
+
       {/* SECTION: Upload modal (Clinic) */}
-      {showUploadModal && isClinic && (
+      {showUploadModal && canUpload && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-8 max-w-md w-full">
+          <div
+            className={`bg-white rounded-lg p-8 w-full max-h-[90vh] overflow-y-auto ${
+              selectedCsv ? "max-w-4xl" : "max-w-md"
+            }`}
+          >
             <h2 className="text-2xl font-bold mb-4">Upload New Report</h2>
             <p className="mb-6 text-gray-600">Please select a CSV file to upload.</p>
-            {isUploading ? (
-              <div className="flex flex-col items-center justify-center">
-                <ClockIcon className="h-12 w-12 text-primary animate-spin" />
-                <p className="mt-4 text-gray-700">Uploading and processing...</p>
+            {uploadState.status !== "idle" && (
+              <div className="mb-6">
+                <UploadProgress state={uploadState} onCancel={cancelUpload} />
+                {uploadState.error && (
+                  <p className="mt-2 text-sm text-red-600">{uploadState.error}</p>
+                )}
               </div>
-            ) : (
-              <input
-                type="file"
-                accept=".csv,text/csv"
-                onChange={handleFileUpload}
-                className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-dark file:text-white hover:file:bg-primary"
-              />
             )}
-            <button
-              onClick={() => setShowUploadModal(false)}
-              className="mt-6 w-full bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
-            >
-              Cancel
-            </button>
+            {!isUploading && (
+              <>
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={handleFileSelect}
+                  className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-dark file:text-white hover:file:bg-primary"
+                />
+                {selectedCsv && (
+                  <div className="mt-6">
+                    <CsvPreview fileName={selectedCsv.file.name} result={selectedCsv.result} />
+                  </div>
+                )}
+              </>
+            )}
+            <div className="mt-6 flex space-x-4">
+              <button
+                onClick={closeUploadModal}
+                className="flex-1 bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+              {selectedCsv && !isUploading && (
+                <button
+                  onClick={handleFileUpload}
+                  disabled={!selectedCsv.result.isValid}
+                  className="flex-1 bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark disabled:bg-gray-400"
+                >
+                  {uploadState.status === "error" || uploadState.status === "cancelled"
+                    ? "Retry upload"
+                    : "Upload"}
+                </button>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -1,80 +1,277 @@
-import React, { useState } from "react";
-import { requestUploadUrl } from "../services/api";
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useToast } from "../context/ToastContext";
+import CsvPreview from "../components/CsvPreview";
+import FileDropZone from "../components/FileDropZone";
+import type { QueueItem, QueueItemStatus, QueueSummary } from "../hooks/useUploadQueue";
+import { DEFAULT_UPLOAD_CONCURRENCY, useUploadQueue } from "../hooks/useUploadQueue";
+import { XMarkIcon } from "@heroicons/react/24/outline";
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+/* ---------------- helpers ---------------- */
+
+const STATUS_STYLES: Record<QueueItemStatus, { label: string; cls: string }> = {
+  validating: { label: "Checking", cls: "bg-gray-200 text-gray-800" },
+  invalid: { label: "Invalid", cls: "bg-red-200 text-red-800" },
+  ready: { label: "Ready", cls: "bg-blue-200 text-blue-800" },
+  queued: { label: "Queued", cls: "bg-gray-200 text-gray-800" },
+  uploading: { label: "Uploading", cls: "bg-blue-200 text-blue-800" },
+  retrying: { label: "Retrying", cls: "bg-yellow-200 text-yellow-800" },
+  done: { label: "Uploaded", cls: "bg-green-200 text-green-800" },
+  failed: { label: "Failed", cls: "bg-red-200 text-red-800" },
+  cancelled: { label: "Cancelled", cls: "bg-gray-200 text-gray-800" },
+};
+
+const statusBadge = (status: QueueItemStatus) => (
+  <span className={`px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[status].cls}`}>
+    {STATUS_STYLES[status].label}
+  </span>
+);
+
+function rowDetail(item: QueueItem): string {
+  if (item.error) return item.error;
+  if (item.status === "invalid" && item.validation) {
+    const v = item.validation;
+    return [...v.fileErrors, v.invalidRowCount ? `${v.invalidRowCount} row(s) with errors` : ""]
+      .filter(Boolean)
+      .join("; ");
+  }
+  if (item.status === "retrying") return `Retrying (attempt ${item.attempt})…`;
+  if (item.validation) return `${item.validation.rows.length} row(s)`;
+  return "";
+}
+
+function summaryText(summary: QueueSummary): string {
+  const parts = [
+    `${summary.succeeded} uploaded`,
+    summary.failed > 0 && `${summary.failed} failed`,
+    summary.cancelled > 0 && `${summary.cancelled} cancelled`,
+    summary.skipped > 0 && `${summary.skipped} skipped (invalid)`,
+  ].filter(Boolean);
+  return `${parts.join(", ")}.`;
+}
+
+// Stays on the page after the toast is gone, so failed files can still be found and retried.
+const BatchSummary: React.FC<{
+  summary: QueueSummary;
+  canRetry: boolean;
+  onRetry: () => void;
+  onDismiss: () => void;
+}> = ({ summary, canRetry, onRetry, onDismiss }) => (
+  <div
+    className={`rounded-md px-4 py-3 border ${
+      summary.failures.length ? "bg-red-50 text-red-800 border-red-200" : "bg-green-50 text-green-800 border-green-200"
+    }`}
+  >
+    <div className="flex justify-between items-start">
+      <p className="font-semibold">Last batch: {summaryText(summary)}</p>
+      <div className="flex items-center space-x-4 ml-4 text-xs">
+        {summary.failures.length > 0 && (
+          <button
+            type="button"
+            onClick={onRetry}
+            disabled={!canRetry}
+            className="font-semibold underline disabled:opacity-50"
+          >
+            Retry failed ({summary.failures.length})
+          </button>
+        )}
+        <button type="button" onClick={onDismiss} className="underline opacity-70 hover:opacity-100">
+          Dismiss
+        </button>
+      </div>
+    </div>
+    {summary.failures.length > 0 && (
+      <ul className="mt-2 ml-5 list-disc text-sm max-h-40 overflow-y-auto">
+        {summary.failures.map((f) => (
+          <li key={f.id}>
+            <span className="font-medium">{f.fileName}</span>: {f.error}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/* ---------------- component ---------------- */
 
 const UploadReport: React.FC = () => {
-  const [isUploading, setIsUploading] = useState(false);
-  const [notice, setNotice] = useState<{ type: "success" | "error"; text: string } | null>(null);
-
-  const flash = (type: "success" | "error", text: string) => {
-    setNotice({ type, text });
-    setTimeout(() => setNotice(null), 5000);
-  };
-
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const inputEl = e.target as HTMLInputElement;
-    if (!(inputEl.files && inputEl.files[0])) return;
-
-    const file = inputEl.files[0];
-
-    if (!/\.csv$/i.test(file.name)) {
-      flash("error", "Please upload a .csv file (Excel .xlsx won't be processed).");
-      inputEl.value = "";
-      return;
-    }
-
-    setIsUploading(true);
-    try {
-      const contentType = "text/csv";
-      const presign: any = await requestUploadUrl(file.name, contentType);
-      const uploadUrl: string = presign.uploadUrl;
-
-      const put = await fetch(uploadUrl, {
-        method: "PUT",
-        headers: { "Content-Type": contentType },
-        body: file,
-      });
-
-      if (!put.ok) {
-        const t = await put.text();
-        throw new Error(`S3 upload failed: ${put.status} ${t || put.statusText}`);
-      }
-
-      flash("success", `Report file "${file.name}" uploaded. Processing has started.`);
-    } catch (err: any) {
-      console.error("Upload failed", err);
-      flash("error", err?.message || "Upload failed. See console for details.");
-    } finally {
-      setIsUploading(false);
-      if (e.target) (e.target as HTMLInputElement).value = "";
-    }
-  };
+  const [concurrency, setConcurrency] = useState(DEFAULT_UPLOAD_CONCURRENCY);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const queue = useUploadQueue(concurrency);
+  const { items, isRunning, summary } = queue;
+  const { notify } = useToast();
+  const navigate = useNavigate();
+
+  const previewItem = items.find((it) => it.id === previewId && it.validation);
+
+  // Drop the preview if its file leaves the queue.
+  useEffect(() => {
+    if (previewId && !items.some((it) => it.id === previewId)) setPreviewId(null);
+  }, [items, previewId]);
+
+  // One notification per finished batch; per-file detail stays in the table.
+  const notifiedSummary = useRef<typeof summary>(null);
+  useEffect(() => {
+    if (!summary || notifiedSummary.current === summary) return;
+    notifiedSummary.current = summary;
+    const message = `${summaryText(summary)}${summary.succeeded > 0 ? " Processing has started." : ""}`;
+    notify(summary.failed ? "error" : "success", message, {
+      title: "Batch finished",
+      action: summary.succeeded > 0 ? { label: "View reports", onClick: () => navigate("/reports") } : undefined,
+    });
+  }, [summary, notify, navigate]);
 
   return (
     <div className="space-y-6">
-      <h1 className="text-3xl font-bold text-gray-800">Upload Report</h1>
-
-      {notice && (
-        <div
-          className={`rounded-md px-4 py-3 ${
-            notice.type === "success"
-              ? "bg-green-50 text-green-800 border border-green-200"
-              : "bg-red-50 text-red-800 border border-red-200"
-          }`}
-        >
-          {notice.text}
-        </div>
-      )}
-
-      <div className="bg-white rounded-xl shadow-md p-8 max-w-xl">
-        <p className="mb-6 text-gray-600">Select a CSV file to upload.</p>
-        <input
-          type="file"
-          accept=".csv,text/csv"
-          onChange={handleFileUpload}
-          disabled={isUploading}
-          className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary-dark file:text-white hover:file:bg-primary disabled:opacity-60"
-        />
-        {isUploading && <p className="mt-4 text-gray-700">Uploading and processing…</p>}
+      <h1 className="text-3xl font-bold text-gray-800">Upload Reports</h1>
+
+      <div className="bg-white rounded-xl shadow-md p-8 space-y-6">
+        <FileDropZone onFiles={queue.addFiles} />
+
+        {summary && (
+          <BatchSummary
+            summary={summary}
+            canRetry={!isRunning}
+            onRetry={queue.retryFailed}
+            onDismiss={queue.dismissSummary}
+          />
+        )}
+
+        {items.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <label className="flex items-center text-sm text-gray-700">
+                Parallel uploads
+                <select
+                  value={concurrency}
+                  onChange={(e) => setConcurrency(Number(e.target.value))}
+                  disabled={isRunning}
+                  className="ml-2 px-2 py-1 border border-gray-300 rounded-md bg-white"
+                >
+                  {CONCURRENCY_OPTIONS.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <div className="flex space-x-4">
+                {isRunning ? (
+                  <button
+                    type="button"
+                    onClick={queue.cancelAll}
+                    className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+                  >
+                    Cancel all
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={queue.clearFinished}
+                    className="bg-gray-200 text-gray-800 font-bold py-2 px-4 rounded-lg hover:bg-gray-300"
+                  >
+                    Clear uploaded
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={queue.start}
+                  disabled={isRunning || queue.uploadableCount === 0}
+                  className="bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark disabled:bg-gray-400"
+                >
+                  {isRunning ? "Uploading…" : `Upload ${queue.uploadableCount} file(s)`}
+                </button>
+              </div>
+            </div>
+
+            <table className="min-w-full text-sm divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">File</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider w-1/3">Progress</th>
+                  <th className="px-4 py-3 text-left font-semibold text-gray-600 uppercase tracking-wider">Details</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {items.map((item) => {
+                  const active = item.status === "uploading" || item.status === "retrying" || item.status === "queued";
+                  return (
+                    <tr key={item.id} className={previewId === item.id ? "bg-secondary" : "hover:bg-gray-50"}>
+                      <td className="px-4 py-3 text-gray-900 font-medium">
+                        {item.validation ? (
+                          <button
+                            type="button"
+                            onClick={() => setPreviewId(previewId === item.id ? null : item.id)}
+                            className="text-left hover:underline"
+                            title="Show preview"
+                          >
+                            {item.file.name}
+                          </button>
+                        ) : (
+                          item.file.name
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">{statusBadge(item.status)}</td>
+                      <td className="px-4 py-3">
+                        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full ${item.status === "failed" ? "bg-danger" : "bg-primary"}`}
+                            style={{ width: `${item.percent}%` }}
+                          />
+                        </div>
+                      </td>
+                      <td className={`px-4 py-3 text-xs ${item.error || item.status === "invalid" ? "text-red-600" : "text-gray-500"}`}>
+                        {rowDetail(item)}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        {active ? (
+                          <button
+                            type="button"
+                            onClick={() => queue.cancel(item.id)}
+                            className="text-red-600 hover:text-red-700 text-xs font-semibold"
+                          >
+                            Cancel
+                          </button>
+                        ) : (
+                          <>
+                            {item.status === "cancelled" && (
+                              <button
+                                type="button"
+                                onClick={() => queue.retry(item.id)}
+                                disabled={isRunning}
+                                className="text-primary hover:underline text-xs font-semibold mr-3 disabled:opacity-40"
+                              >
+                                Retry
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => queue.remove(item.id)}
+                              disabled={isRunning}
+                              className="text-gray-400 hover:text-red-600 disabled:opacity-40"
+                              title="Remove from queue"
+                            >
+                              <XMarkIcon className="h-5 w-5" />
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {previewItem?.validation && (
+          <CsvPreview fileName={previewItem.file.name} result={previewItem.validation} />
+        )}
       </div>
     </div>
   );
@@ -1,45 +1,42 @@
-import React, { useEffect, useState } from "react";
-import { useAuth } from "../context/AuthContext";
+import React, { useMemo, useState } from "react";
+import { usePermission } from "../hooks/usePermission";
+import { useToast } from "../context/ToastContext";
+import { deleteKeys, useUndoableDelete } from "../hooks/useUndoableDelete";
+import { useUserQuery } from "../hooks/useUserQuery";
+import { paginate } from "../services/tableQuery";
+import { applyUserFilters, sortUsers } from "../services/userFilters";
+import { groupForRole } from "../services/permissions";
+import type { ManagedUser } from "../types";
 import { UserRole } from "../types";
 import {
   getAllUsers,
+  queryKeys,
   createUser as apiCreateUser,
   deleteUser as apiDeleteUser,
 } from "../services/api";
-import { PlusIcon, UserCircleIcon } from "@heroicons/react/24/solid";
-
-type ApiRole = "ClinicStaff" | "MedisysStaff" | "MedisysAdmin";
+import { useQuery } from "../hooks/useQuery";
+import { ArrowUpTrayIcon, PlusIcon, UserCircleIcon } from "@heroicons/react/24/solid";
+import ErrorState from "../components/ErrorState";
+import ClinicSelect from "../components/ClinicSelect";
+import UserFilterBar from "../components/UserFilterBar";
+import SortableHeader from "../components/SortableHeader";
+import Pagination from "../components/Pagination";
+import EditUserDialog from "../components/EditUserDialog";
+import UserImportDialog from "../components/UserImportDialog";
+import { ForbiddenError } from "../services/apiErrors";
 
 /* ---------------- helpers ---------------- */
 
-function toApiRole(role: UserRole): ApiRole {
-  switch (role) {
-    case UserRole.ADMIN:
-      return "MedisysAdmin";
-    case UserRole.STAFF:
-      return "MedisysStaff";
-    case UserRole.CLINIC:
-    default:
-      return "ClinicStaff";
-  }
-}
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
-/** Normalize groups coming from the API (either `groups` or `Groups`) into a UI role */
-function roleFromGroups(groups: string[] | undefined): "ADMIN" | "STAFF" | "CLINIC" {
-  const g = groups ?? [];
-  if (g.includes("MedisysAdmin") || g.includes("MedSysAdmin")) return "ADMIN";
-  if (g.includes("MedisysStaff") || g.includes("MedSysStaff")) return "STAFF";
-  if (g.includes("ClinicStaff")) return "CLINIC";
-  return "CLINIC";
-}
+const ROLE_SHORT_LABEL: Record<UserRole, string> = {
+  [UserRole.ADMIN]: "ADMIN",
+  [UserRole.STAFF]: "STAFF",
+  [UserRole.CLINIC]: "CLINIC",
+};
 
-const roleBadge = (roleLike: ApiRole | "ADMIN" | "STAFF" | "CLINIC" | string) => {
-  const norm =
-    roleLike === "MedisysAdmin" || roleLike === "ADMIN"
-      ? "ADMIN"
-      : roleLike === "MedisysStaff" || roleLike === "STAFF"
-      ? "STAFF"
-      : "CLINIC";
+const roleBadge = (role: UserRole) => {
+  const norm = ROLE_SHORT_LABEL[role];
 
   const colors: Record<string, string> = {
     ADMIN: "bg-red-200 text-red-800",
@@ -54,6 +51,21 @@ const roleBadge = (roleLike: ApiRole | "ADMIN" | "STAFF" | "CLINIC" | string) =>
   );
 };
 
+// Disabled wins over the Cognito status: the user cannot sign in either way.
+function accountStatus(u: ManagedUser): { label: string; cls: string } {
+  if (!u.enabled) return { label: "Disabled", cls: "bg-gray-200 text-gray-700" };
+  switch (u.status) {
+    case "CONFIRMED":
+      return { label: "Active", cls: "bg-green-100 text-green-800" };
+    case "FORCE_CHANGE_PASSWORD":
+      return { label: "Invited", cls: "bg-blue-100 text-blue-800" };
+    case "RESET_REQUIRED":
+      return { label: "Password reset", cls: "bg-yellow-100 text-yellow-800" };
+    default:
+      return { label: u.status.replace(/_/g, " ").toLowerCase(), cls: "bg-gray-100 text-gray-700" };
+  }
+}
+
 function formatDate(d?: string | Date | null): string {
   if (!d) return "-";
   try {
@@ -64,47 +76,36 @@ function formatDate(d?: string | Date | null): string {
   }
 }
 
-/* ---------------- tiny flash/toast ---------------- */
-
-type Flash = { type: "success" | "error"; text: string } | null;
-
-const FlashToast: React.FC<{ flash: Flash; onClose: () => void }> = ({
-  flash,
-  onClose,
-}) => {
-  if (!flash) return null;
-  const base =
-    "fixed right-4 top-4 z-50 rounded-lg shadow-lg px-4 py-3 text-sm flex items-start gap-3";
-  const styles =
-    flash.type === "success"
-      ? "bg-green-50 text-green-800 border border-green-200"
-      : "bg-red-50 text-red-800 border border-red-200";
-
-  return (
-    <div className={`${base} ${styles}`}>
-      <div className="font-semibold">
-        {flash.type === "success" ? "Success" : "Error"}
-      </div>
-      <div className="opacity-90">{flash.text}</div>
-      <button
-        className="ml-2 text-xs underline opacity-70 hover:opacity-100"
-        onClick={onClose}
-        type="button"
-      >
-        Dismiss
-      </button>
-    </div>
-  );
-};
-
 /* ---------------- component ---------------- */
 
 const UserManagement: React.FC = () => {
-  const { user } = useAuth();
-
-  const [users, setUsers] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [err, setErr] = useState<string | null>(null);
+  const canView = usePermission("user.view");
+  const canCreate = usePermission("user.create");
+  const canUpdate = usePermission("user.update");
+  const canDelete = usePermission("user.delete");
+
+  // createUser/deleteUser invalidate this key, so the table reloads on its own.
+  const {
+    data,
+    error: err,
+    isLoading: loading,
+    refetch: refresh,
+  } = useQuery(queryKeys.users(), getAllUsers, { enabled: canView });
+  const { stageDelete, isPending, pendingVersion } = useUndoableDelete();
+  // Users staged for deletion are hidden until the undo window runs out.
+  const users = useMemo(
+    () => (data ?? []).filter((u) => !isPending(deleteKeys.user(u.username))),
+    [data, isPending, pendingVersion]
+  );
+  const { filters, sort, page, pageSize, setFilter, toggleSort, resetFilters, setPage, setPageSize } =
+    useUserQuery();
+  const visibleUsers = useMemo(
+    () => sortUsers(applyUserFilters(users, filters), sort),
+    [users, filters, sort]
+  );
+  const { currentPage, pageRows: pagedUsers } = paginate<ManagedUser>(visibleUsers, page, pageSize);
+  const [editing, setEditing] = useState<ManagedUser | null>(null);
+  const [showImport, setShowImport] = useState(false);
 
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [email, setEmail] = useState("");
@@ -112,171 +113,182 @@ const UserManagement: React.FC = () => {
   const [clinicId, setClinicId] = useState("");
   const [creating, setCreating] = useState(false);
 
-  const [flash, setFlash] = useState<Flash>(null);
-
-  function notifySuccess(msg: string) {
-    setFlash({ type: "success", text: msg });
-  }
-  function notifyError(msg: string) {
-    setFlash({ type: "error", text: msg });
-  }
-
-  useEffect(() => {
-    if (!flash) return;
-    const t = setTimeout(() => setFlash(null), 4000);
-    return () => clearTimeout(t);
-  }, [flash]);
-
-  async function refresh() {
-    setLoading(true);
-    setErr(null);
-    try {
-      const data = await getAllUsers();
-      setUsers(Array.isArray(data) ? data : []);
-    } catch (e: any) {
-      setErr(e?.message ?? "Failed to load users");
-    } finally {
-      setLoading(false);
-    }
-  }
-
-  useEffect(() => {
-    refresh();
-  }, []);
+  const toast = useToast();
 
   async function onCreate(e: React.FormEvent) {
     e.preventDefault();
     setCreating(true);
     try {
-      const apiRole = toApiRole(role);
+      const apiRole = groupForRole(role);
       const derivedName = email.includes("@") ? email.split("@")[0] : email;
 
-      // Sanitize clinicId
-      const finalClinicId = clinicId ? clinicId.trim().toUpperCase() : undefined;
-
       await apiCreateUser({
         email,
         role: apiRole,
-        clinicId: role === UserRole.CLINIC ? finalClinicId : undefined,
+        clinicId: role === UserRole.CLINIC ? clinicId : undefined,
         name: derivedName,
       });
 
-      notifySuccess(`User ${email} created successfully.`);
+      toast.success(`User ${email} created successfully.`);
       setEmail("");
       setClinicId("");
       setRole(UserRole.CLINIC);
       setShowCreateModal(false);
-      await refresh();
     } catch (e: any) {
-      notifyError(e?.message ?? "Failed to create user");
+      toast.error(e?.message ?? "Failed to create user");
     } finally {
       setCreating(false);
     }
   }
 
-  async function onDelete(u: any) {
-    const identifier = u?.Email ?? u?.email ?? u?.Username ?? u?.username;
+  function onDelete(u: ManagedUser) {
+    const identifier = u.username;
     if (!identifier) {
-      notifyError("Unable to identify this user for deletion.");
+      toast.error("Unable to identify this user for deletion.");
       return;
     }
-    if (!confirm(`Delete user ${identifier}?`)) return;
-
-    try {
-      await apiDeleteUser({ email: identifier });
-      notifySuccess(`User ${identifier} deleted successfully.`);
-      await refresh();
-    } catch (e: any) {
-      notifyError(e?.message ?? "Failed to delete user");
-    }
+    stageDelete(deleteKeys.user(identifier), `User ${identifier}`, () =>
+      apiDeleteUser({ email: identifier })
+    );
   }
 
-  if (user?.role !== UserRole.ADMIN) {
-    return <div>Unauthorized</div>;
+  if (!canView) {
+    return <ErrorState error={new ForbiddenError()} />;
   }
 
   if (loading) {
     return <div className="text-center p-10">Loading users...</div>;
   }
 
-  if (err) {
-    return (
-      <div className="text-center p-10 text-red-600">
-        {err || "Failed to load users"}
-      </div>
-    );
+  if (data === undefined) {
+    return <ErrorState error={err} fallback="Failed to load users" onRetry={refresh} />;
   }
 
   return (
     <div className="space-y-6">
-      <FlashToast flash={flash} onClose={() => setFlash(null)} />
-
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold text-gray-800">User Management</h1>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="flex items-center bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark transition-transform transform hover:scale-105"
-        >
-          <PlusIcon className="h-5 w-5 mr-2" />
-          Create User
-        </button>
-      </div>
-
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {users.map((u, i) => {
-          const emailVal = u.Email ?? u.email ?? "";
-          const localPart = emailVal ? String(emailVal).split("@")[0] : "";
-          const displayName =
-            u.name ?? u.Name ?? (localPart || emailVal) ?? u.username ?? u.Username ?? "Unknown";
-
-          const groups = (u.groups ?? u.Groups) as string[] | undefined;
-          const uiRole = (u.role as string | undefined)?.toUpperCase?.() as
-            | "ADMIN"
-            | "STAFF"
-            | "CLINIC"
-            | undefined;
-          const finalRole = uiRole ?? roleFromGroups(groups);
-
-          const createdIso = u.createdAt ?? u.CreatedAt ?? u.UserCreateDate;
-          const created = formatDate(createdIso);
-
-          const clinicIdFromApi = u.clinicId ?? u.ClinicId ?? u["custom:clinicId"];
-
-          return (
-            <div
-              key={i}
-              className="bg-white rounded-xl shadow-md p-6 flex items-start space-x-4"
+        {canCreate && (
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center bg-white text-primary border border-primary font-bold py-2 px-4 rounded-lg hover:bg-secondary"
             >
-              <div className="p-3 bg-secondary rounded-full">
-                <UserCircleIcon className="h-8 w-8 text-primary" />
-              </div>
-              <div className="flex-1">
-                <h3 className="font-bold text-lg text-gray-800">{displayName}</h3>
-                <p className="text-sm text-gray-500">{emailVal}</p>
-
-                <div className="mt-2">{roleBadge(finalRole)}</div>
+              <ArrowUpTrayIcon className="h-5 w-5 mr-2" />
+              Import CSV
+            </button>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="flex items-center bg-primary text-white font-bold py-2 px-4 rounded-lg hover:bg-primary-dark transition-transform transform hover:scale-105"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              Create User
+            </button>
+          </div>
+        )}
+      </div>
 
-                {finalRole === "CLINIC" && clinicIdFromApi && (
-                  <p className="text-sm text-gray-600 mt-1">
-                    Clinic ID: <span className="font-medium">{clinicIdFromApi}</span>
-                  </p>
-                )}
+      <UserFilterBar
+        users={users}
+        filters={filters}
+        onChange={setFilter}
+        onReset={resetFilters}
+        resultCount={visibleUsers.length}
+      />
+
+      <div className="bg-white rounded-xl shadow-md overflow-x-auto">
+        <table className="min-w-full text-sm divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <SortableHeader label="User" sortKey="name" active={sort} onSort={toggleSort} className="px-4 py-3" />
+              <SortableHeader label="Role" sortKey="role" active={sort} onSort={toggleSort} className="px-4 py-3" />
+              <SortableHeader label="Clinic" sortKey="clinic" active={sort} onSort={toggleSort} className="px-4 py-3" />
+              <SortableHeader label="Status" sortKey="status" active={sort} onSort={toggleSort} className="px-4 py-3" />
+              <SortableHeader label="Created" sortKey="createdAt" active={sort} onSort={toggleSort} className="px-4 py-3" />
+              {(canUpdate || canDelete) && <th className="px-4 py-3" />}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {pagedUsers.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-10 text-center text-gray-500">
+                  {users.length ? "No users match these filters." : "No users yet."}
+                </td>
+              </tr>
+            )}
+            {pagedUsers.map((u) => {
+              const status = accountStatus(u);
+              return (
+                <tr key={u.username} className={`hover:bg-gray-50 ${u.enabled ? "" : "opacity-70"}`}>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center">
+                      <UserCircleIcon className="h-8 w-8 text-primary mr-3 flex-shrink-0" />
+                      <div>
+                        <div className="font-semibold text-gray-800">{u.name}</div>
+                        <div className="text-gray-500">{u.email}</div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="px-4 py-3">{roleBadge(u.role)}</td>
+                  <td className="px-4 py-3 text-gray-700">
+                    {u.role === UserRole.CLINIC && u.clinicId ? (
+                      <>
+                        <div>{u.clinicName ?? u.clinicId}</div>
+                        {u.clinicName && <div className="text-xs text-gray-400">{u.clinicId}</div>}
+                      </>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${status.cls}`}>
+                      {status.label}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 text-gray-500 whitespace-nowrap">{formatDate(u.createdAt)}</td>
+                  {(canUpdate || canDelete) && (
+                    <td className="px-4 py-3 text-right whitespace-nowrap space-x-4">
+                      {canUpdate && (
+                        <button
+                          onClick={() => setEditing(u)}
+                          className="text-primary hover:underline font-semibold"
+                        >
+                          Edit
+                        </button>
+                      )}
+                      {canDelete && (
+                        <button
+                          onClick={() => onDelete(u)}
+                          className="text-red-600 hover:text-red-700 font-semibold"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <Pagination
+          page={currentPage}
+          pageSize={pageSize}
+          total={visibleUsers.length}
+          pageSizeOptions={PAGE_SIZE_OPTIONS}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+        />
+      </div>
 
-                <div className="mt-3 text-xs text-gray-500">Created: {created}</div>
+      {editing && <EditUserDialog user={editing} onClose={() => setEditing(null)} />}
 
-                <div className="mt-4">
-                  <button
-                    onClick={() => onDelete(u)}
-                    className="text-red-600 hover:text-red-700 text-sm font-semibold"
-                  >
-                    Delete
-                  </button>
-                </div>
-              </div>
-            </div>
-          );
-        })}
-      </div>
+      {showImport && (
+        <UserImportDialog
+          existingEmails={new Set((data ?? []).map((u) => u.email.toLowerCase()))}
+          onClose={() => setShowImport(false)}
+        />
+      )}
 
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -307,35 +319,7 @@ const UserManagement: React.FC = () => {
                 </select>
               </div>
 
-              {role === UserRole.CLINIC && (
-                <div>
-                  <label className="block text-sm font-medium text-gray-700">
-                    Clinic ID <span className="text-gray-500 text-xs">(format: CLINIC_001)</span>
-                  </label>
-                  <input
-                    type="text"
-                    value={clinicId}
-                    onChange={(e) =>
-                      setClinicId(e.target.value.toUpperCase().replace(/\s+/g, ""))
-                    }
-                    required
-                    /* HTML pattern engine: use [0-9]+ (no ^$ anchors) */
-                    pattern="CLINIC_[0-9]+"
-                    title="Clinic ID must match CLINIC_number (e.g., CLINIC_001)"
-                    onInvalid={(e) =>
-                      (e.currentTarget as HTMLInputElement).setCustomValidity(
-                        "Clinic ID must match CLINIC_number (e.g., CLINIC_001)"
-                      )
-                    }
-                    onInput={(e) =>
-                      (e.currentTarget as HTMLInputElement).setCustomValidity("")
-                    }
-                    autoComplete="off"
-                    spellCheck={false}
-                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-primary focus:border-primary"
-                  />
-                </div>
-              )}
+              {role === UserRole.CLINIC && <ClinicSelect value={clinicId} onChange={setClinicId} />}
 
               <div className="flex justify-end space-x-4 pt-4">
                 <button
@@ -1,22 +1,44 @@
 // src/services/api.ts
-type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
-
-const API_BASE_URL = "https://vxty9ac0h2.execute-api.us-east-1.amazonaws.com";
+import type { AuditEntry, Clinic, ManagedUser, Report } from "../types";
+import { UserRole } from "../types";
+import { normalizeReports } from "./reportNormalizer";
+import { normalizeUsers } from "./userNormalizer";
+import { normalizeClinics } from "./clinicNormalizer";
+import { normalizeAuditLog } from "./auditNormalizer";
+import { clearTokens, getIdToken, getRefreshToken, refreshTokens } from "./authTokens";
+import type { CognitoGroup } from "./permissions";
+import type { StatusTransition } from "./reportLifecycle";
+import { getConfig, isMockMode } from "./config";
+import { apiErrorFromResponse, AuthError, NetworkError } from "./apiErrors";
+import { ensureQuery, invalidateQueries, setQueriesData } from "./queryCache";
 
-// --- Auth token helper ---
-function getIdToken(): string | null {
-  return localStorage.getItem("cognito_id_token");
-}
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
 
 // --- Core fetch wrapper ---
 async function apiFetch<T>(
   path: string,
   method: HttpMethod,
   body?: BodyInit | Record<string, any> | null,
-  options?: { signal?: AbortSignal; headers?: Record<string, string> }
+  options?: { signal?: AbortSignal; headers?: Record<string, string> },
+  retried = false
 ): Promise<T> {
   const token = getIdToken();
-  if (!token) throw new Error("Not authenticated: missing ID token");
+  if (!token) throw new AuthError("Not signed in.");
+
+  if (isMockMode()) {
+    try {
+      // Loaded on demand so the mock backend (seed data, personas) stays out of API builds.
+      const { handleMockRequest } = await import("./mockApiService");
+      options?.signal?.throwIfAborted();
+      const result = await handleMockRequest<T>(path, method, body, token);
+      // The mock can't be interrupted mid-request; honour a cancel as soon as it answers.
+      options?.signal?.throwIfAborted();
+      return result;
+    } catch (err) {
+      if (err instanceof AuthError) clearTokens();
+      throw err;
+    }
+  }
 
   const headers = new Headers(options?.headers);
   headers.set("Authorization", `Bearer ${token}`);
@@ -30,14 +52,21 @@ async function apiFetch<T>(
     finalBody = JSON.stringify(body);
   }
 
-  const res = await fetch(`${API_BASE_URL}${path}`, {
-    method,
-    headers,
-    body: finalBody,
-    signal: options?.signal,
-    mode: "cors",
-    cache: "no-store",
-  });
+  let res: Response;
+  try {
+    res = await fetch(`${getConfig().apiBaseUrl}${path}`, {
+      method,
+      headers,
+      body: finalBody,
+      signal: options?.signal,
+      mode: "cors",
+      cache: "no-store",
+    });
+  } catch (err) {
+    // Let cancellations through untouched; anything else is a transport failure (offline, CORS, DNS).
+    if ((err as any)?.name === "AbortError") throw err;
+    throw new NetworkError();
+  }
 
   const text = await res.text();
   let data: any = undefined;
@@ -47,13 +76,19 @@ async function apiFetch<T>(
     // keep raw text if backend returns non-JSON
   }
 
+  // Expired ID token: refresh once and replay the request.
+  if (res.status === 401 && !retried && (await refreshTokens())) {
+    return apiFetch<T>(path, method, body, options, true);
+  }
+
   if (!res.ok) {
-    const msg =
-      (data && (data.message || data.error || data.detail)) ||
-      text ||
-      res.statusText ||
-      "Request failed";
-    throw new Error(`${res.status} ${msg}`);
+    const requestId =
+      res.headers.get("x-amzn-requestid") ?? res.headers.get("x-request-id") ?? undefined;
+    const error = apiErrorFromResponse(res.status, data, data ? "" : text || res.statusText, requestId);
+    // Still 401 after a successful refresh, or no refresh token left: the session is gone, so drop it
+    // and let the app route to login. A refresh that failed transiently keeps its token for a retry.
+    if (error instanceof AuthError && (retried || !getRefreshToken())) clearTokens();
+    throw error;
   }
 
   return (data as T) ?? (undefined as unknown as T);
@@ -64,44 +99,209 @@ async function apiFetch<T>(
    ======================= */
 
 // 1) Ask backend for a presigned PUT URL and S3 key
-export async function requestUploadUrl(filename: string, contentType: string) {
+export async function requestUploadUrl(filename: string, contentType: string, signal?: AbortSignal) {
   // Backend may return extra fields (objectKey, clinicId, etc.); we only need URL + key
   return apiFetch<{ uploadUrl: string; key: string }>(
     "/upload-reports",
     "POST",
-    { filename, contentType }
+    { filename, contentType },
+    { signal }
   );
 }
 
+/* =======================
+   Pagination
+   ======================= */
+
+export interface Page<T> {
+  items: T[];
+  /** Continuation token for the next page, or null when this was the last one. */
+  nextCursor: string | null;
+}
+
+const REPORTS_PAGE_LIMIT = 500;
+// Safety net against a backend that keeps returning the same token.
+const MAX_PAGES = 100;
+
+// Accepts a bare array (backend without pagination) or an envelope such as
+// { items, nextToken } / { Items, LastEvaluatedKey } / Cognito's { Users, PaginationToken }.
+function toPage(data: any): Page<unknown> {
+  if (Array.isArray(data)) return { items: data, nextCursor: null };
+
+  const items = data?.items ?? data?.Items ?? data?.reports ?? data?.Users ?? data?.users ?? data?.data ?? [];
+  const token =
+    data?.nextCursor ??
+    data?.nextToken ??
+    data?.cursor ??
+    data?.LastEvaluatedKey ??
+    data?.PaginationToken ??
+    data?.paginationToken ??
+    null;
+  return {
+    items: Array.isArray(items) ? items : [],
+    nextCursor:
+      token === null || token === undefined || token === ""
+        ? null
+        : typeof token === "string"
+        ? token
+        : JSON.stringify(token),
+  };
+}
+
+interface PageOptions {
+  cursor?: string | null;
+  limit?: number;
+  /** Query parameter that carries the cursor; the user listing passes Cognito's `paginationToken`. */
+  cursorParam?: string;
+}
+
+function withPageParams(path: string, limit: number, cursor?: string | null, cursorParam = "cursor"): string {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) params.set(cursorParam, cursor);
+  return `${path}?${params.toString()}`;
+}
+
+/** Fetch one page of a list endpoint. */
+export async function getPage(path: string, options: PageOptions = {}): Promise<Page<unknown>> {
+  const limit = options.limit ?? REPORTS_PAGE_LIMIT;
+  return toPage(
+    await apiFetch<unknown>(withPageParams(path, limit, options.cursor, options.cursorParam), "GET")
+  );
+}
+
+/**
+ * Follow continuation tokens until the list is exhausted. Throws rather than
+ * returning a partial list when MAX_PAGES is hit, since filters, counts and
+ * exports built on it would otherwise be silently wrong.
+ */
+async function fetchAllPages(path: string, options: Omit<PageOptions, "cursor"> = {}): Promise<unknown[]> {
+  const all: unknown[] = [];
+  let cursor: string | null = null;
+  for (let i = 0; i < MAX_PAGES; i++) {
+    const page = await getPage(path, { ...options, cursor });
+    all.push(...page.items);
+    if (!page.nextCursor || page.nextCursor === cursor) return all;
+    cursor = page.nextCursor;
+  }
+  console.warn(`[api] ${path} still had more pages after ${MAX_PAGES}; refusing to show a partial list.`);
+  throw new Error(`This list is longer than ${MAX_PAGES} pages and could not be loaded completely.`);
+}
+
+/* =======================
+   Query keys
+   ======================= */
+
+export type ReportScope = "my" | "approved" | "all";
+
+/** Cache keys for list endpoints; mutations below invalidate by prefix. */
+export const queryKeys = {
+  reports: (scope: ReportScope) => ["reports", scope] as const,
+  /** Under "reports" so every report mutation refreshes it too. */
+  deletedReports: () => ["reports", "deleted"] as const,
+  dashboard: () => ["dashboard"] as const,
+  users: () => ["users"] as const,
+  clinics: () => ["clinics"] as const,
+  audit: () => ["audit"] as const,
+  /** Under "audit" so every admin action refreshes it too. */
+  reportHistory: (reportId: string) => ["audit", "report", reportId] as const,
+};
+
+/** Which report list a role reads from. */
+export function reportScopeFor(role: UserRole): ReportScope {
+  return role === UserRole.CLINIC ? "my" : role === UserRole.STAFF ? "approved" : "all";
+}
+
 /* =======================
    Reports
    ======================= */
 
-export async function getMyReports() {
-  return apiFetch<any[]>("/my-reports", "GET");
+// Raw rows are mapped through the normalizer so callers only ever see `Report`.
+export async function getMyReports(): Promise<Report[]> {
+  return normalizeReports(await fetchAllPages("/my-reports"));
 }
 
-export async function getApprovedReports() {
-  return apiFetch<any[]>("/approved-reports", "GET");
+export async function getApprovedReports(): Promise<Report[]> {
+  return normalizeReports(await fetchAllPages("/approved-reports"));
 }
 
-export async function getAllReports() {
-  return apiFetch<any[]>("/all-reports", "GET");
+export async function getAllReports(): Promise<Report[]> {
+  return normalizeReports(await fetchAllPages("/all-reports"));
+}
+
+export function getReportsForScope(scope: ReportScope): Promise<Report[]> {
+  return scope === "my" ? getMyReports() : scope === "approved" ? getApprovedReports() : getAllReports();
+}
+
+// There is no single-report endpoint; look the report up in the list the
+// caller's role is allowed to see so access rules stay on the backend. The
+// list comes from the query cache, so opening a report from the table is free.
+export async function getReport(reportId: string, role: UserRole): Promise<Report | null> {
+  const scope = reportScopeFor(role);
+  const list = await ensureQuery(queryKeys.reports(scope), () => getReportsForScope(scope));
+  return list.find((r) => r.id === reportId) ?? null;
 }
 
 export async function reviewReport(
   reportId: string,
   payload: { status: string; note?: string }
 ) {
-  return apiFetch<{ message: string }>(
-    `/review-report/${reportId}`,
+  const res = await apiFetch<{ message: string }>(
+    `/review-report/${encodeURIComponent(reportId)}`,
     "PUT",
     payload
   );
+  invalidateReports();
+  return res;
+}
+
+// Review decisions go through the admin review endpoint above; every other
+// move has its own endpoint, named after the permission that gates it.
+const TRANSITION_ENDPOINTS: Partial<Record<string, string>> = {
+  "report.resubmit": "resubmit",
+  "report.reprocess": "reprocess",
+  "report.archive": "archive",
+};
+
+/** Make one move from `allowedTransitions` on the endpoint that owns it. */
+export async function transitionReport(reportId: string, transition: StatusTransition, note?: string) {
+  if (transition.permission === "report.review") {
+    return reviewReport(reportId, { status: transition.to, ...(note ? { note } : {}) });
+  }
+  const endpoint = TRANSITION_ENDPOINTS[transition.permission];
+  if (!endpoint) throw new Error(`"${transition.label}" is not available from the portal.`);
+  const res = await apiFetch<{ message: string }>(
+    `/reports/${encodeURIComponent(reportId)}/${endpoint}`,
+    "POST",
+    note ? { note } : {}
+  );
+  invalidateReports();
+  return res;
 }
 
 export async function deleteReport(reportId: string) {
-  return apiFetch<{ message: string }>(`/review-report/${reportId}`, "DELETE");
+  const res = await apiFetch<{ message: string }>(`/review-report/${encodeURIComponent(reportId)}`, "DELETE");
+  // Drop the row right away so it can't flash back in while the lists refetch.
+  setQueriesData<Report[]>(["reports"], (list) => list.filter((r) => r.id !== reportId));
+  invalidateReports();
+  return res;
+}
+
+// Soft-deleted reports, if the backend keeps them; a 404 means it deletes permanently.
+export async function getDeletedReports(): Promise<Report[]> {
+  return normalizeReports(await fetchAllPages("/deleted-reports"));
+}
+
+export async function restoreReport(reportId: string) {
+  const res = await apiFetch<{ message: string }>(`/restore-report/${encodeURIComponent(reportId)}`, "POST");
+  invalidateReports();
+  return res;
+}
+
+/** Report lists, dashboard counts and the audit log all change when a report does. */
+export function invalidateReports() {
+  invalidateQueries(["reports"]);
+  invalidateQueries(queryKeys.dashboard());
+  invalidateQueries(queryKeys.audit());
 }
 
 /* =======================
@@ -116,13 +316,26 @@ export async function getDashboardStats() {
    Users (Admin only)
    ======================= */
 
-export async function getAllUsers() {
-  return apiFetch<any[]>("/all-users", "GET");
+/** User lists, clinic staff counts and the audit log all change when a user does. */
+export function invalidateUsers() {
+  invalidateQueries(queryKeys.users());
+  invalidateQueries(queryKeys.clinics());
+  invalidateQueries(queryKeys.audit());
+}
+
+// Cognito ListUsers returns at most 60 users per call.
+const USERS_PAGE_LIMIT = 60;
+
+/** Every account in the pool, following `PaginationToken` across ListUsers pages. */
+export async function getAllUsers(): Promise<ManagedUser[]> {
+  return normalizeUsers(
+    await fetchAllPages("/all-users", { limit: USERS_PAGE_LIMIT, cursorParam: "paginationToken" })
+  );
 }
 
 export async function createUser(payload: {
   email: string;
-  role: "ClinicStaff" | "MedisysStaff" | "MedisysAdmin";
+  role: CognitoGroup;
   clinicId?: string; // <-- added
   name?: string;
 }) {
@@ -136,7 +349,9 @@ export async function createUser(payload: {
     userRole: payload.role,
     ...(payload.clinicId ? { clinicId: payload.clinicId } : {}), // <-- forward to backend
   };
-  return apiFetch<{ message: string; clinicId?: string }>("/user", "POST", body);
+  const res = await apiFetch<{ message: string; clinicId?: string }>("/user", "POST", body);
+  invalidateUsers();
+  return res;
 }
 
 export async function deleteUser(payload: { email?: string; username?: string }) {
@@ -144,5 +359,104 @@ export async function deleteUser(payload: { email?: string; username?: string })
     ...(payload.email ? { email: payload.email, username: payload.email } : {}),
     ...(payload.username ? { username: payload.username } : {}),
   };
-  return apiFetch<{ message: string }>("/user", "DELETE", body);
+  const res = await apiFetch<{ message: string }>("/user", "DELETE", body);
+  const key = payload.email ?? payload.username;
+  setQueriesData<ManagedUser[]>(queryKeys.users(), (list) => list.filter((u) => u.username !== key));
+  invalidateUsers();
+  return res;
+}
+
+/**
+ * Change group membership and/or clinic. `clinicId: null` clears it (e.g. when
+ * a clinic user becomes MediSys staff).
+ */
+export async function updateUser(
+  username: string,
+  changes: { role?: CognitoGroup; clinicId?: string | null; name?: string }
+) {
+  const body = {
+    username,
+    email: username,
+    ...(changes.role ? { role: changes.role, group: changes.role } : {}),
+    ...(changes.clinicId !== undefined ? { clinicId: changes.clinicId } : {}),
+    ...(changes.name ? { name: changes.name } : {}),
+  };
+  const res = await apiFetch<{ message: string }>("/user", "PUT", body);
+  invalidateUsers();
+  return res;
+}
+
+/** Disable (AdminDisableUser) or re-enable an account. Disabled users cannot sign in. */
+export async function setUserEnabled(username: string, enabled: boolean) {
+  const res = await apiFetch<{ message: string }>(
+    `/user/${enabled ? "enable" : "disable"}`,
+    "POST",
+    { username }
+  );
+  invalidateUsers();
+  return res;
+}
+
+/** AdminResetUserPassword: Cognito emails a code and the user must set a new password. */
+export async function resetUserPassword(username: string) {
+  const res = await apiFetch<{ message: string }>("/user/reset-password", "POST", { username });
+  invalidateUsers();
+  return res;
+}
+
+/* =======================
+   Clinics (Admin only)
+   ======================= */
+
+export interface ClinicInput {
+  name: string;
+  contactName?: string;
+  contactEmail?: string;
+  phone?: string;
+  address?: string;
+}
+
+export async function getClinics(): Promise<Clinic[]> {
+  return normalizeClinics(await fetchAllPages("/clinics"));
+}
+
+/** Register a clinic under a new `CLINIC_###` id; the backend rejects ids already in use. */
+export async function createClinic(id: string, details: ClinicInput) {
+  const res = await apiFetch<{ message: string }>("/clinics", "POST", { clinicId: id, ...details });
+  invalidateQueries(queryKeys.clinics());
+  invalidateQueries(queryKeys.audit());
+  return res;
+}
+
+/** Edit contact details or the display name; the id never changes. */
+export async function updateClinic(id: string, changes: Partial<ClinicInput>) {
+  const res = await apiFetch<{ message: string }>(`/clinics/${encodeURIComponent(id)}`, "PUT", changes);
+  // Users and reports show the clinic name, so a rename touches every list.
+  invalidateUsers();
+  invalidateReports();
+  return res;
+}
+
+/** Archive (or bring back) a clinic. Existing staff and reports are untouched. */
+export async function setClinicArchived(id: string, archived: boolean) {
+  const res = await apiFetch<{ message: string }>(
+    `/clinics/${encodeURIComponent(id)}/${archived ? "archive" : "unarchive"}`,
+    "POST"
+  );
+  invalidateQueries(queryKeys.clinics());
+  invalidateQueries(queryKeys.audit());
+  return res;
+}
+
+/* =======================
+   Audit log (Admin only)
+   ======================= */
+
+export async function getAuditLog(): Promise<AuditEntry[]> {
+  return normalizeAuditLog(await fetchAllPages("/audit-log"));
+}
+
+/** Every recorded action on one report, newest first. */
+export async function getReportHistory(reportId: string): Promise<AuditEntry[]> {
+  return normalizeAuditLog(await fetchAllPages(`/reports/${encodeURIComponent(reportId)}/history`));
 }
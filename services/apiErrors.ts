@@ -0,0 +1,130 @@
+// src/services/apiErrors.ts
+// Typed errors thrown by apiFetch so callers can branch on `kind` instead of
+// string-matching messages. `message` is always human-readable.
+
+export type ApiErrorKind =
+  | "auth"
+  | "forbidden"
+  | "notFound"
+  | "validation"
+  | "conflict"
+  | "network"
+  | "server"
+  | "unknown";
+
+/** Field name -> problems, as returned in a 400/422 body. */
+export type FieldErrors = Record<string, string[]>;
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public kind: ApiErrorKind,
+    /** HTTP status; 0 when the request never got a response. */
+    public status: number,
+    /** API Gateway / Lambda request ID, for support tickets. */
+    public requestId?: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export class AuthError extends ApiError {
+  constructor(message = "Your session has expired. Please sign in again.", requestId?: string) {
+    super(message, "auth", 401, requestId);
+    this.name = "AuthError";
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = "You do not have permission to do that.", requestId?: string) {
+    super(message, "forbidden", 403, requestId);
+    this.name = "ForbiddenError";
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = "The requested item was not found.", requestId?: string) {
+    super(message, "notFound", 404, requestId);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(
+    message: string,
+    public fieldErrors: FieldErrors = {},
+    status = 400,
+    requestId?: string
+  ) {
+    super(message, "validation", status, requestId);
+    this.name = "ValidationError";
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = "Could not reach the server. Check your connection and try again.") {
+    super(message, "network", 0);
+    this.name = "NetworkError";
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message: string, status: number, requestId?: string) {
+    super(message, "server", status, requestId);
+    this.name = "ServerError";
+  }
+}
+
+/* =======================
+   Mapping
+   ======================= */
+
+// Accepts { errors: { field: "msg" | ["msg"] } } or { errors: [{ field, message }] }.
+function parseFieldErrors(data: any): FieldErrors {
+  const raw = data?.errors ?? data?.fieldErrors ?? data?.details;
+  const out: FieldErrors = {};
+  if (Array.isArray(raw)) {
+    for (const e of raw) {
+      const field = String(e?.field ?? e?.path ?? e?.name ?? "_");
+      (out[field] ??= []).push(String(e?.message ?? e?.msg ?? e));
+    }
+  } else if (raw && typeof raw === "object") {
+    for (const [field, v] of Object.entries(raw)) {
+      out[field] = (Array.isArray(v) ? v : [v]).map(String);
+    }
+  }
+  return out;
+}
+
+/** Build the right error subclass from a failed response. */
+export function apiErrorFromResponse(
+  status: number,
+  data: any,
+  fallbackText = "",
+  requestId?: string
+): ApiError {
+  const msg: string | undefined =
+    (data && (data.message || data.error || data.detail)) || fallbackText || undefined;
+  const reqId = requestId ?? data?.requestId ?? data?.RequestId;
+
+  if (status === 401) return new AuthError(undefined, reqId);
+  if (status === 403) return new ForbiddenError(msg, reqId);
+  if (status === 404) return new NotFoundError(msg, reqId);
+  if (status === 400 || status === 422) {
+    return new ValidationError(msg || "The request was not valid.", parseFieldErrors(data), status, reqId);
+  }
+  if (status === 409) return new ApiError(msg || "That conflicts with existing data.", "conflict", status, reqId);
+  if (status >= 500) return new ServerError(msg || "The server had a problem. Please try again.", status, reqId);
+  return new ApiError(msg || `Request failed (${status})`, "unknown", status, reqId);
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError;
+}
+
+/** Message for any thrown value, with a fallback for non-errors. */
+export function errorMessage(err: unknown, fallback = "Something went wrong."): string {
+  if (err instanceof Error && err.message) return err.message;
+  return typeof err === "string" && err ? err : fallback;
+}
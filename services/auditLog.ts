@@ -0,0 +1,99 @@
+// src/services/auditLog.ts
+import type { AuditAction, AuditEntry, AuditTargetType } from "../types";
+import { downloadBlob, toCsv } from "./exportReports";
+import { reportStatusLabel } from "./reportLifecycle";
+
+/* =======================
+   Labels
+   ======================= */
+
+export const AUDIT_ACTION_LABELS: Record<string, string> = {
+  "report.upload": "Report uploaded",
+  "report.review": "Report reviewed",
+  "report.status": "Report status changed",
+  "report.delete": "Report deleted",
+  "report.restore": "Report restored",
+  "user.create": "User created",
+  "user.update": "User updated",
+  "user.delete": "User deleted",
+  "user.enable": "User enabled",
+  "user.disable": "User disabled",
+  "user.resetPassword": "Password reset",
+  "clinic.create": "Clinic created",
+  "clinic.update": "Clinic updated",
+  "clinic.archive": "Clinic archived",
+  "clinic.unarchive": "Clinic restored",
+};
+
+/** Human label for an action; status changes read as "Report approved" etc. when the new status is known. */
+export function auditActionLabel(entry: Pick<AuditEntry, "action" | "statusAfter">): string {
+  if ((entry.action === "report.review" || entry.action === "report.status") && entry.statusAfter) {
+    return `Report ${reportStatusLabel(entry.statusAfter).toLowerCase()}`;
+  }
+  return AUDIT_ACTION_LABELS[entry.action] ?? entry.action;
+}
+
+/* =======================
+   Filtering
+   ======================= */
+
+export interface AuditFilters {
+  /** Free text matched against actor, target and note. */
+  q: string;
+  action: AuditAction | "";
+  targetType: AuditTargetType | "";
+  /** ISO dates (YYYY-MM-DD), inclusive. */
+  from: string;
+  to: string;
+}
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = { q: "", action: "", targetType: "", from: "", to: "" };
+
+// Local midnight at the start of a YYYY-MM-DD day, `offsetDays` later. `new Date("YYYY-MM-DD")`
+// would be UTC midnight, shifting the range by the viewer's offset.
+function localDayStart(iso: string, offsetDays = 0): number {
+  const m = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]) + offsetDays).getTime() : NaN;
+}
+
+export function applyAuditFilters(entries: AuditEntry[], f: AuditFilters): AuditEntry[] {
+  const q = f.q.trim().toLowerCase();
+  const lo = localDayStart(f.from);
+  // `to` is a calendar day; include the whole day.
+  const hi = localDayStart(f.to, 1);
+  return entries.filter((e) => {
+    const t = new Date(e.timestamp).getTime();
+    return (
+      (!q ||
+        [e.actorName, e.actorEmail, e.targetId, e.note].some((v) => (v ?? "").toLowerCase().includes(q))) &&
+      (!f.action || e.action === f.action) &&
+      (!f.targetType || e.targetType === f.targetType) &&
+      (isNaN(lo) || t >= lo) &&
+      (isNaN(hi) || t < hi)
+    );
+  });
+}
+
+/* =======================
+   Export
+   ======================= */
+
+/** Download `entries` as CSV, one row per entry in the order given. */
+export function exportAuditLog(entries: AuditEntry[]) {
+  const rows = [
+    ["TIMESTAMP", "ACTOR", "ACTOR_EMAIL", "ACTION", "TARGET_TYPE", "TARGET_ID", "STATUS_BEFORE", "STATUS_AFTER", "NOTE"],
+    ...entries.map((e) => [
+      e.timestamp,
+      e.actorName,
+      e.actorEmail ?? "",
+      e.action,
+      e.targetType,
+      e.targetId,
+      e.statusBefore ?? "",
+      e.statusAfter ?? "",
+      e.note ?? "",
+    ]),
+  ];
+  const blob = new Blob(["\uFEFF" + toCsv(rows)], { type: "text/csv;charset=utf-8" });
+  downloadBlob(blob, `audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+}
@@ -0,0 +1,66 @@
+// src/services/auditNormalizer.ts
+import type { AuditEntry, AuditTargetType } from "../types";
+
+/* =======================
+   Raw field aliases
+   ======================= */
+
+// /audit-log rows are written by several Lambdas, which do not agree on casing.
+const FIELD_ALIASES = {
+  id: ["id", "auditId", "AUDIT_ID"],
+  timestamp: ["timestamp", "createdAt", "TIMESTAMP"],
+  actorId: ["actorId", "userId", "ACTOR_ID"],
+  actorName: ["actorName", "actor", "ACTOR_NAME"],
+  actorEmail: ["actorEmail", "ACTOR_EMAIL"],
+  action: ["action", "ACTION"],
+  targetType: ["targetType", "TARGET_TYPE"],
+  targetId: ["targetId", "TARGET_ID"],
+  note: ["note", "reviewNote", "NOTE"],
+  statusBefore: ["statusBefore", "previousStatus", "STATUS_BEFORE"],
+  statusAfter: ["statusAfter", "newStatus", "STATUS_AFTER"],
+} as const;
+
+const TARGET_TYPES: AuditTargetType[] = ["report", "user", "clinic"];
+
+function pick(raw: Record<string, unknown>, keys: readonly string[]): string {
+  for (const k of keys) {
+    const v = raw[k];
+    if (v === undefined || v === null) continue;
+    const s = String(v).trim();
+    if (s) return s;
+  }
+  return "";
+}
+
+/* =======================
+   Normalization
+   ======================= */
+
+/** Map one raw audit row into an `AuditEntry`. A missing target type is read off the action prefix. */
+export function normalizeAuditEntry(raw: unknown, index = 0): AuditEntry {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const action = pick(row, FIELD_ALIASES.action) || "unknown";
+  const type = (pick(row, FIELD_ALIASES.targetType) || action.split(".")[0]).toLowerCase();
+  const timestamp = pick(row, FIELD_ALIASES.timestamp);
+
+  return {
+    id: pick(row, FIELD_ALIASES.id) || `${timestamp}-${index}`,
+    timestamp,
+    actorId: pick(row, FIELD_ALIASES.actorId) || undefined,
+    actorName: pick(row, FIELD_ALIASES.actorName) || pick(row, FIELD_ALIASES.actorEmail) || "System",
+    actorEmail: pick(row, FIELD_ALIASES.actorEmail) || undefined,
+    action,
+    targetType: TARGET_TYPES.includes(type as AuditTargetType) ? (type as AuditTargetType) : "report",
+    targetId: pick(row, FIELD_ALIASES.targetId),
+    note: pick(row, FIELD_ALIASES.note) || undefined,
+    statusBefore: pick(row, FIELD_ALIASES.statusBefore) || undefined,
+    statusAfter: pick(row, FIELD_ALIASES.statusAfter) || undefined,
+  };
+}
+
+/** Normalize a list of audit rows, newest first. */
+export function normalizeAuditLog(raw: unknown): AuditEntry[] {
+  return (Array.isArray(raw) ? raw.map(normalizeAuditEntry) : []).sort(
+    (a, b) => (new Date(b.timestamp).getTime() || 0) - (new Date(a.timestamp).getTime() || 0)
+  );
+}
@@ -0,0 +1,245 @@
+// src/services/authTokens.ts
+// Cognito OAuth2 authorization-code + PKCE flow and token storage. Shared by
+// AuthContext (login/logout/session) and api.ts (bearer token, 401 retry).
+
+import { getConfig } from "./config";
+
+const SCOPES = "openid profile email";
+
+export const ID_TOKEN_KEY = "cognito_id_token";
+const ACCESS_TOKEN_KEY = "cognito_access_token";
+const REFRESH_TOKEN_KEY = "cognito_refresh_token";
+
+// PKCE verifier + state live only for the duration of the redirect.
+const PKCE_VERIFIER_KEY = "cognito_pkce_verifier";
+const PKCE_STATE_KEY = "cognito_pkce_state";
+
+export interface TokenSet {
+  idToken: string;
+  accessToken: string;
+  refreshToken: string | null;
+}
+
+/* =======================
+   JWT helpers
+   ======================= */
+
+// Base64URL -> JSON helper for JWT payloads
+export function decodeJwtPayload<T = any>(jwt: string): T {
+  const base64Url = jwt.split(".")[1];
+  if (!base64Url) throw new Error("Invalid JWT");
+
+  const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+
+  const json = atob(padded);
+  return JSON.parse(json) as T;
+}
+
+/** Expiry of a JWT in epoch ms, or 0 if it cannot be read. */
+export function tokenExpiry(jwt: string | null): number {
+  if (!jwt) return 0;
+  try {
+    return Number(decodeJwtPayload<{ exp?: number }>(jwt).exp ?? 0) * 1000;
+  } catch {
+    return 0;
+  }
+}
+
+/* =======================
+   Storage
+   ======================= */
+
+export function getIdToken(): string | null {
+  return localStorage.getItem(ID_TOKEN_KEY);
+}
+
+export function getRefreshToken(): string | null {
+  return localStorage.getItem(REFRESH_TOKEN_KEY);
+}
+
+type Listener = (idToken: string | null) => void;
+const listeners = new Set<Listener>();
+
+/**
+ * Be told whenever tokens are stored or cleared (login, refresh, logout),
+ * including changes made by other tabs.
+ */
+export function onTokensChanged(listener: Listener): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === ID_TOKEN_KEY || e.key === null) listener(getIdToken());
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function storeTokens(tokens: TokenSet) {
+  localStorage.setItem(ID_TOKEN_KEY, tokens.idToken);
+  localStorage.setItem(ACCESS_TOKEN_KEY, tokens.accessToken);
+  // Cognito does not rotate refresh tokens; keep the old one if none came back.
+  if (tokens.refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  listeners.forEach((l) => l(tokens.idToken));
+}
+
+export function clearTokens() {
+  localStorage.removeItem(ID_TOKEN_KEY);
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  listeners.forEach((l) => l(null));
+}
+
+/* =======================
+   PKCE
+   ======================= */
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function randomString(byteLength: number): string {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+async function codeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/** Build the Hosted UI authorize URL, remembering the verifier and state for the callback. */
+export async function buildAuthorizeUrl(): Promise<string> {
+  const verifier = randomString(64);
+  const state = randomString(16);
+  sessionStorage.setItem(PKCE_VERIFIER_KEY, verifier);
+  sessionStorage.setItem(PKCE_STATE_KEY, state);
+
+  const params = new URLSearchParams({
+    client_id: getConfig().cognito.clientId,
+    response_type: "code",
+    scope: SCOPES,
+    redirect_uri: getConfig().cognito.redirectUri,
+    code_challenge_method: "S256",
+    code_challenge: await codeChallenge(verifier),
+    state,
+  });
+  return `https://${getConfig().cognito.domain}/oauth2/authorize?${params.toString()}`;
+}
+
+export function buildLogoutUrl(): string {
+  const { domain, clientId, logoutUri } = getConfig().cognito;
+  return `https://${domain}/logout?client_id=${encodeURIComponent(
+    clientId
+  )}&logout_uri=${encodeURIComponent(logoutUri)}`;
+}
+
+/* =======================
+   Token endpoint
+   ======================= */
+
+/** Non-2xx answer from the token endpoint; `code` is the OAuth `error` field when present. */
+class TokenRequestError extends Error {
+  constructor(public status: number, public code: string | undefined, message: string) {
+    super(message);
+    this.name = "TokenRequestError";
+  }
+}
+
+// Only these mean the refresh token itself is no good; anything else (offline,
+// Cognito 5xx, throttling) may pass, so the session is kept for another try.
+function isRejectedGrant(err: unknown): boolean {
+  if (!(err instanceof TokenRequestError)) return false;
+  return err.code === "invalid_grant" || err.status === 400 || err.status === 401;
+}
+
+async function postToken(form: Record<string, string>): Promise<TokenSet> {
+  const res = await fetch(`https://${getConfig().cognito.domain}/oauth2/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(form).toString(),
+  });
+  const data: any = await res.json().catch(() => ({}));
+  if (!res.ok || !data?.id_token) {
+    throw new TokenRequestError(
+      res.status,
+      data?.error,
+      `Token request failed: ${data?.error_description || data?.error || res.status}`
+    );
+  }
+  return {
+    idToken: data.id_token,
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? null,
+  };
+}
+
+/**
+ * Complete the redirect: exchange `?code=` for tokens after checking `state`.
+ * Returns null when the URL is not an auth callback.
+ */
+export async function exchangeCodeFromUrl(search: string): Promise<TokenSet | null> {
+  const params = new URLSearchParams(search);
+  const code = params.get("code");
+  const error = params.get("error");
+  if (error) throw new Error(params.get("error_description") || error);
+  if (!code) return null;
+
+  const verifier = sessionStorage.getItem(PKCE_VERIFIER_KEY);
+  const expectedState = sessionStorage.getItem(PKCE_STATE_KEY);
+  sessionStorage.removeItem(PKCE_VERIFIER_KEY);
+  sessionStorage.removeItem(PKCE_STATE_KEY);
+
+  if (!verifier || !expectedState || params.get("state") !== expectedState) {
+    throw new Error("Login response did not match the request. Please sign in again.");
+  }
+
+  const tokens = await postToken({
+    grant_type: "authorization_code",
+    client_id: getConfig().cognito.clientId,
+    code,
+    redirect_uri: getConfig().cognito.redirectUri,
+    code_verifier: verifier,
+  });
+  storeTokens(tokens);
+  return tokens;
+}
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+/**
+ * Use the refresh token to get a fresh ID token. Concurrent callers share one
+ * request. Resolves to null if refreshing fails; the session is cleared only
+ * when Cognito rejects the refresh token, so a later call can retry otherwise.
+ */
+export function refreshTokens(): Promise<string | null> {
+  if (refreshInFlight) return refreshInFlight;
+
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshInFlight = postToken({
+    grant_type: "refresh_token",
+    client_id: getConfig().cognito.clientId,
+    refresh_token: refreshToken,
+  })
+    .then((tokens) => {
+      storeTokens(tokens);
+      return tokens.idToken;
+    })
+    .catch((err) => {
+      console.warn("Token refresh failed:", err);
+      if (isRejectedGrant(err)) clearTokens();
+      return null;
+    })
+    .finally(() => {
+      refreshInFlight = null;
+    });
+
+  return refreshInFlight;
+}
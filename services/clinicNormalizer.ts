@@ -0,0 +1,62 @@
+// src/services/clinicNormalizer.ts
+import type { Clinic } from "../types";
+
+/* =======================
+   Raw field aliases
+   ======================= */
+
+// /clinics rows come from DynamoDB, so keys may be camelCase or the
+// CLINIC_ID style used in report exports.
+const FIELD_ALIASES = {
+  id: ["clinicId", "id", "CLINIC_ID", "ClinicId"],
+  name: ["name", "clinicName", "CLINIC_NAME", "Name"],
+  contactName: ["contactName", "CONTACT_NAME", "contact"],
+  contactEmail: ["contactEmail", "CONTACT_EMAIL", "email"],
+  phone: ["phone", "PHONE", "contactPhone"],
+  address: ["address", "ADDRESS"],
+  createdAt: ["createdAt", "CREATED_AT"],
+  archivedAt: ["archivedAt", "ARCHIVED_AT"],
+} as const;
+
+function pick(raw: Record<string, unknown>, keys: readonly string[]): string {
+  for (const k of keys) {
+    const v = raw[k];
+    if (v === undefined || v === null) continue;
+    const s = String(v).trim();
+    if (s) return s;
+  }
+  return "";
+}
+
+/* =======================
+   Normalization
+   ======================= */
+
+/** Map one raw /clinics row into a `Clinic`. A clinic with `archivedAt` set counts as archived. */
+export function normalizeClinic(raw: unknown): Clinic {
+  const row = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const id = pick(row, FIELD_ALIASES.id);
+  const archivedAt = pick(row, FIELD_ALIASES.archivedAt) || undefined;
+  const archived = row.archived ?? row.ARCHIVED;
+  const staff = Number(row.staffCount ?? row.userCount ?? row.STAFF_COUNT);
+
+  return {
+    id,
+    name: pick(row, FIELD_ALIASES.name) || id,
+    contactName: pick(row, FIELD_ALIASES.contactName) || undefined,
+    contactEmail: pick(row, FIELD_ALIASES.contactEmail) || undefined,
+    phone: pick(row, FIELD_ALIASES.phone) || undefined,
+    address: pick(row, FIELD_ALIASES.address) || undefined,
+    staffCount: Number.isFinite(staff) && staff > 0 ? staff : 0,
+    createdAt: pick(row, FIELD_ALIASES.createdAt) || undefined,
+    archived: archived === true || String(archived).toLowerCase() === "true" || !!archivedAt,
+    archivedAt,
+  };
+}
+
+/** Normalize a whole /clinics response, sorted by name. Rows without an id are dropped. */
+export function normalizeClinics(raw: unknown): Clinic[] {
+  return (Array.isArray(raw) ? raw.map(normalizeClinic) : [])
+    .filter((c) => c.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,219 @@
+// src/services/config.ts
+// Deployment settings (data source, API, Cognito, session limits). Read once at startup from
+// Vite env vars, then overridden by an optional runtime `config.json` served
+// next to index.html so one build can be promoted across dev/staging/prod.
+
+export type DataSource = "api" | "mock";
+
+export interface AppConfig {
+  /** `mock` runs against the in-browser mock backend with a persona picker instead of Cognito. */
+  dataSource: DataSource;
+  /** API Gateway base URL, no trailing slash. */
+  apiBaseUrl: string;
+  cognito: {
+    /** Hosted UI domain without scheme, e.g. `my-pool.auth.us-east-1.amazoncognito.com`. */
+    domain: string;
+    clientId: string;
+    redirectUri: string;
+    logoutUri: string;
+  };
+  session: {
+    idleTimeoutMinutes: number;
+    warningSeconds: number;
+  };
+}
+
+/** Shape of `config.json`; every field optional so it can override just a few env values. */
+type RawConfig = {
+  dataSource?: unknown;
+  apiBaseUrl?: unknown;
+  cognito?: { domain?: unknown; clientId?: unknown; redirectUri?: unknown; logoutUri?: unknown };
+  session?: { idleTimeoutMinutes?: unknown; warningSeconds?: unknown };
+};
+
+export class ConfigError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid app configuration:\n- ${issues.join("\n- ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+const RUNTIME_CONFIG_URL = "./config.json";
+
+const DEFAULT_IDLE_TIMEOUT_MINUTES = 15;
+const DEFAULT_WARNING_SECONDS = 60;
+
+/* =======================
+   Sources
+   ======================= */
+
+function fromEnv(): RawConfig {
+  const env = import.meta.env;
+  return {
+    dataSource: env.VITE_DATA_SOURCE,
+    apiBaseUrl: env.VITE_API_BASE_URL,
+    cognito: {
+      domain: env.VITE_COGNITO_DOMAIN,
+      clientId: env.VITE_COGNITO_CLIENT_ID,
+      redirectUri: env.VITE_COGNITO_REDIRECT_URI,
+      logoutUri: env.VITE_COGNITO_LOGOUT_URI,
+    },
+    session: {
+      idleTimeoutMinutes: env.VITE_IDLE_TIMEOUT_MINUTES,
+      warningSeconds: env.VITE_SESSION_WARNING_SECONDS,
+    },
+  };
+}
+
+// A missing file is fine (env-only deployments); a present but broken one is not.
+async function fromRuntimeFile(): Promise<RawConfig> {
+  let res: Response;
+  try {
+    res = await fetch(RUNTIME_CONFIG_URL, { cache: "no-store" });
+  } catch {
+    return {};
+  }
+  // Dev servers answer unknown paths with index.html, so require JSON.
+  if (!res.ok || !res.headers.get("content-type")?.includes("json")) return {};
+
+  try {
+    const data = await res.json();
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+      throw new Error("expected an object");
+    }
+    return data as RawConfig;
+  } catch (e: any) {
+    throw new ConfigError([`config.json could not be parsed: ${e?.message ?? e}`]);
+  }
+}
+
+const isBlank = (v: unknown) => v === undefined || v === null || v === "";
+
+function merge(base: RawConfig, override: RawConfig): RawConfig {
+  const pick = (a: unknown, b: unknown) => (isBlank(b) ? a : b);
+  return {
+    dataSource: pick(base.dataSource, override.dataSource),
+    apiBaseUrl: pick(base.apiBaseUrl, override.apiBaseUrl),
+    cognito: {
+      domain: pick(base.cognito?.domain, override.cognito?.domain),
+      clientId: pick(base.cognito?.clientId, override.cognito?.clientId),
+      redirectUri: pick(base.cognito?.redirectUri, override.cognito?.redirectUri),
+      logoutUri: pick(base.cognito?.logoutUri, override.cognito?.logoutUri),
+    },
+    session: {
+      idleTimeoutMinutes: pick(base.session?.idleTimeoutMinutes, override.session?.idleTimeoutMinutes),
+      warningSeconds: pick(base.session?.warningSeconds, override.session?.warningSeconds),
+    },
+  };
+}
+
+/* =======================
+   Validation
+   ======================= */
+
+/** Check and normalize a merged config. Collects every problem rather than stopping at the first. */
+export function validateConfig(raw: RawConfig): AppConfig {
+  const issues: string[] = [];
+  const dataSource = isBlank(raw.dataSource) ? "api" : String(raw.dataSource);
+  if (dataSource !== "api" && dataSource !== "mock") {
+    issues.push(`dataSource must be "api" or "mock" (got "${dataSource}").`);
+  }
+  // The mock backend never talks to AWS, so endpoints may be left out.
+  const required = dataSource !== "mock";
+  // Redirect back to wherever the app is served from unless told otherwise.
+  const origin = `${window.location.origin.replace(/\/+$/, "")}/`;
+
+  const url = (name: string, v: unknown, fallback?: string): string => {
+    if (isBlank(v)) {
+      if (fallback !== undefined) return fallback;
+      if (required) issues.push(`${name} is required.`);
+      return "";
+    }
+    try {
+      const u = new URL(String(v));
+      if (u.protocol !== "https:" && u.hostname !== "localhost") {
+        issues.push(`${name} must use https (got "${v}").`);
+      }
+      return String(v);
+    } catch {
+      issues.push(`${name} is not a valid URL (got "${v}").`);
+      return "";
+    }
+  };
+
+  const text = (name: string, v: unknown, pattern?: RegExp): string => {
+    if (isBlank(v)) {
+      if (required) issues.push(`${name} is required.`);
+      return "";
+    }
+    const s = String(v).trim();
+    if (pattern && !pattern.test(s)) issues.push(`${name} is malformed (got "${s}").`);
+    return s;
+  };
+
+  const positive = (name: string, v: unknown, fallback: number): number => {
+    if (isBlank(v)) return fallback;
+    const n = Number(v);
+    if (!Number.isFinite(n) || n <= 0) {
+      issues.push(`${name} must be a positive number (got "${v}").`);
+      return fallback;
+    }
+    return n;
+  };
+
+  const config: AppConfig = {
+    dataSource: dataSource as DataSource,
+    apiBaseUrl: url("apiBaseUrl (VITE_API_BASE_URL)", raw.apiBaseUrl).replace(/\/+$/, ""),
+    cognito: {
+      // Bare host name: the OAuth helpers add the scheme and paths.
+      domain: text("cognito.domain (VITE_COGNITO_DOMAIN)", raw.cognito?.domain, /^[a-z0-9.-]+$/i),
+      clientId: text("cognito.clientId (VITE_COGNITO_CLIENT_ID)", raw.cognito?.clientId, /^[a-z0-9]+$/i),
+      redirectUri: url("cognito.redirectUri (VITE_COGNITO_REDIRECT_URI)", raw.cognito?.redirectUri, origin),
+      logoutUri: url("cognito.logoutUri (VITE_COGNITO_LOGOUT_URI)", raw.cognito?.logoutUri, origin),
+    },
+    session: {
+      idleTimeoutMinutes: positive(
+        "session.idleTimeoutMinutes (VITE_IDLE_TIMEOUT_MINUTES)",
+        raw.session?.idleTimeoutMinutes,
+        DEFAULT_IDLE_TIMEOUT_MINUTES
+      ),
+      warningSeconds: positive(
+        "session.warningSeconds (VITE_SESSION_WARNING_SECONDS)",
+        raw.session?.warningSeconds,
+        DEFAULT_WARNING_SECONDS
+      ),
+    },
+  };
+
+  // The warning counts down the end of the idle period, so it has to fit inside it.
+  const { idleTimeoutMinutes, warningSeconds } = config.session;
+  if (warningSeconds >= idleTimeoutMinutes * 60) {
+    issues.push(
+      `session.warningSeconds (${warningSeconds}) must be shorter than session.idleTimeoutMinutes (${idleTimeoutMinutes} min = ${idleTimeoutMinutes * 60} s).`
+    );
+  }
+
+  if (issues.length) throw new ConfigError(issues);
+  return config;
+}
+
+/* =======================
+   Access
+   ======================= */
+
+let current: AppConfig | null = null;
+
+/** Load, validate and cache the config. Call once before rendering the app. */
+export async function loadConfig(): Promise<AppConfig> {
+  current = validateConfig(merge(fromEnv(), await fromRuntimeFile()));
+  return current;
+}
+
+export function getConfig(): AppConfig {
+  if (!current) throw new Error("getConfig() called before loadConfig() finished");
+  return current;
+}
+
+export function isMockMode(): boolean {
+  return getConfig().dataSource === "mock";
+}
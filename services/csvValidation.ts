@@ -0,0 +1,240 @@
+// src/services/csvValidation.ts
+
+/* =======================
+   Expected schema
+   ======================= */
+
+// Column order of the lab export the backend processor expects.
+export const REPORT_CSV_COLUMNS = [
+  "PATIENT_ID",
+  "PATIENTFIRSTNAME",
+  "PATIENTLASTNAME",
+  "PATIENTGENDER",
+  "DATEOFBIRTH",
+  "DIAGNOSTICTYPE",
+  "DIAGNOSISRESULT",
+  "BLOODTYPE",
+  "LASTCHECKED",
+] as const;
+
+export type ReportCsvColumn = (typeof REPORT_CSV_COLUMNS)[number];
+
+const GENDERS = ["M", "F", "MALE", "FEMALE", "OTHER"];
+const BLOOD_TYPES = ["A+", "A-", "B+", "B-", "AB+", "AB-", "O+", "O-"];
+
+/** Refuse to parse anything bigger in the browser; the backend has its own limits. */
+export const MAX_CSV_BYTES = 10 * 1024 * 1024;
+
+/* =======================
+   Parsing
+   ======================= */
+
+export interface CsvRecord {
+  /** 1-based physical line the record starts on (header is line 1). */
+  line: number;
+  cells: string[];
+}
+
+export interface ParsedCsv {
+  records: CsvRecord[];
+  /** Line of a quoted field that is never closed; that record is left out of `records`. */
+  unterminatedQuoteLine: number | null;
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields (which may span lines), escaped
+ * quotes ("") and CRLF/LF line endings. Blank lines are dropped, so each
+ * record keeps the line it starts on for error messages.
+ */
+export function parseCsv(text: string): ParsedCsv {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 0;
+
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text; // strip BOM
+
+  const endRow = () => {
+    row.push(field);
+    field = "";
+    if (row.length > 1 || row[0].trim() !== "") records.push({ line: recordLine, cells: row });
+    row = [];
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    const isNewline = ch === "\n" || ch === "\r";
+    if (isNewline && ch === "\r" && src[i + 1] === "\n") i++;
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += isNewline ? "\n" : ch;
+        if (isNewline) line++;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+      quoteLine = line;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (isNewline) {
+      endRow();
+      recordLine = ++line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) return { records, unterminatedQuoteLine: quoteLine };
+  if (field !== "" || row.length) endRow();
+  return { records, unterminatedQuoteLine: null };
+}
+
+/** File-level message for `ParsedCsv.unterminatedQuoteLine`. */
+export function unterminatedQuoteError(line: number): string {
+  return `Line ${line}: a quoted field is never closed, so the rest of the file could not be read.`;
+}
+
+/* =======================
+   Validation
+   ======================= */
+
+export interface CsvRowResult {
+  /** 1-based line number in the file (header is line 1). */
+  line: number;
+  values: Record<ReportCsvColumn, string>;
+  errors: string[];
+}
+
+export interface CsvValidationResult {
+  headers: string[];
+  missingColumns: ReportCsvColumn[];
+  extraColumns: string[];
+  rows: CsvRowResult[];
+  /** Problems with the file as a whole (empty, too large, missing columns, unclosed quote). */
+  fileErrors: string[];
+  invalidRowCount: number;
+  isValid: boolean;
+}
+
+function isValidDate(value: string): boolean {
+  return !!value && !isNaN(new Date(value).getTime());
+}
+
+function validateRow(values: Record<ReportCsvColumn, string>): string[] {
+  const errors: string[] = [];
+
+  for (const col of REPORT_CSV_COLUMNS) {
+    if (!values[col]) errors.push(`${col} is required`);
+  }
+
+  const gender = values.PATIENTGENDER.toUpperCase();
+  if (gender && !GENDERS.includes(gender)) {
+    errors.push(`PATIENTGENDER "${values.PATIENTGENDER}" is not recognised`);
+  }
+
+  const blood = values.BLOODTYPE.toUpperCase().replace(/\s+/g, "");
+  if (blood && !BLOOD_TYPES.includes(blood)) {
+    errors.push(`BLOODTYPE "${values.BLOODTYPE}" is not a valid blood type`);
+  }
+
+  if (values.DATEOFBIRTH) {
+    if (!isValidDate(values.DATEOFBIRTH)) {
+      errors.push(`DATEOFBIRTH "${values.DATEOFBIRTH}" is not a valid date`);
+    } else if (new Date(values.DATEOFBIRTH).getTime() > Date.now()) {
+      errors.push("DATEOFBIRTH is in the future");
+    }
+  }
+
+  if (values.LASTCHECKED && !isValidDate(values.LASTCHECKED)) {
+    errors.push(`LASTCHECKED "${values.LASTCHECKED}" is not a valid date`);
+  }
+
+  return errors;
+}
+
+/** Validate CSV text against `REPORT_CSV_COLUMNS`. Header matching is case-insensitive. */
+export function validateReportCsv(text: string): CsvValidationResult {
+  const { records, unterminatedQuoteLine } = parseCsv(text);
+  const fileErrors: string[] = [];
+  if (unterminatedQuoteLine !== null) fileErrors.push(unterminatedQuoteError(unterminatedQuoteLine));
+
+  if (records.length === 0) {
+    return {
+      headers: [],
+      missingColumns: [...REPORT_CSV_COLUMNS],
+      extraColumns: [],
+      rows: [],
+      fileErrors: fileErrors.length ? fileErrors : ["The file is empty."],
+      invalidRowCount: 0,
+      isValid: false,
+    };
+  }
+
+  const headers = records[0].cells.map((h) => h.trim());
+  const index = new Map(headers.map((h, i) => [h.toUpperCase(), i]));
+
+  const missingColumns = REPORT_CSV_COLUMNS.filter((c) => !index.has(c));
+  const extraColumns = headers.filter(
+    (h) => !(REPORT_CSV_COLUMNS as readonly string[]).includes(h.toUpperCase())
+  );
+  if (missingColumns.length) {
+    fileErrors.push(`Missing required column(s): ${missingColumns.join(", ")}`);
+  }
+
+  const rows: CsvRowResult[] = records.slice(1).map(({ line, cells }) => {
+    const values = {} as Record<ReportCsvColumn, string>;
+    for (const col of REPORT_CSV_COLUMNS) {
+      const idx = index.get(col);
+      values[col] = idx === undefined ? "" : (cells[idx] ?? "").trim();
+    }
+    const errors = missingColumns.length ? [] : validateRow(values);
+    if (cells.length !== headers.length) {
+      errors.push(`Expected ${headers.length} columns, found ${cells.length}`);
+    }
+    return { line, values, errors };
+  });
+
+  if (rows.length === 0 && unterminatedQuoteLine === null) {
+    fileErrors.push("The file has a header but no data rows.");
+  }
+
+  const invalidRowCount = rows.filter((r) => r.errors.length).length;
+  return {
+    headers,
+    missingColumns,
+    extraColumns,
+    rows,
+    fileErrors,
+    invalidRowCount,
+    isValid: fileErrors.length === 0 && invalidRowCount === 0,
+  };
+}
+
+/** Read and validate a selected file. Rejects non-CSV names and oversized files up front. */
+export async function validateReportCsvFile(file: File): Promise<CsvValidationResult> {
+  const reject = (msg: string): CsvValidationResult => ({
+    headers: [],
+    missingColumns: [],
+    extraColumns: [],
+    rows: [],
+    fileErrors: [msg],
+    invalidRowCount: 0,
+    isValid: false,
+  });
+
+  if (!/\.csv$/i.test(file.name)) {
+    return reject("Please upload a .csv file (Excel .xlsx won't be processed).");
+  }
+  if (file.size > MAX_CSV_BYTES) {
+    return reject(`File is larger than ${MAX_CSV_BYTES / (1024 * 1024)} MB.`);
+  }
+  return validateReportCsv(await file.text());
+}
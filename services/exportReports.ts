@@ -0,0 +1,128 @@
+// src/services/exportReports.ts
+import type { Report } from "../types";
+import { buildXlsx } from "./xlsx";
+
+/* =======================
+   Columns
+   ======================= */
+
+export type ExportColumnKey =
+  | "id"
+  | "patientId"
+  | "patientName"
+  | "diagnosticType"
+  | "diagnosisResult"
+  | "bloodType"
+  | "patientGender"
+  | "dateOfBirth"
+  | "lastChecked"
+  | "submissionDate"
+  | "clinicName"
+  | "status"
+  | "reviewNote";
+
+// Same columns, labels and order as the reports table.
+export const EXPORT_COLUMNS: { key: ExportColumnKey; label: string }[] = [
+  { key: "id", label: "Report ID" },
+  { key: "patientId", label: "Patient ID" },
+  { key: "patientName", label: "Patient Name" },
+  { key: "diagnosticType", label: "Diagnostic Type" },
+  { key: "diagnosisResult", label: "Diagnosis Result" },
+  { key: "bloodType", label: "Blood Type" },
+  { key: "patientGender", label: "Patient Gender" },
+  { key: "dateOfBirth", label: "Date of Birth" },
+  { key: "lastChecked", label: "Last Checked" },
+  { key: "submissionDate", label: "Submitted" },
+  { key: "clinicName", label: "Clinic" },
+  { key: "status", label: "Status" },
+  { key: "reviewNote", label: "Review Note" },
+];
+
+export type ExportFormat = "csv" | "xlsx";
+
+export interface ExportOptions {
+  columns: ExportColumnKey[];
+  format: ExportFormat;
+  /** Drop the patient ID, blank the patient name and reduce date of birth to the birth year. */
+  deidentify: boolean;
+}
+
+/* =======================
+   Row building
+   ======================= */
+
+const REDACTED = "[redacted]";
+
+function birthYear(dob?: string): string {
+  if (!dob) return "";
+  const m = dob.match(/\b(\d{4})\b/);
+  if (m) return m[1];
+  const d = new Date(dob);
+  return isNaN(d.getTime()) ? "" : String(d.getFullYear());
+}
+
+export function deidentifyReport(r: Report): Report {
+  return {
+    ...r,
+    patientId: undefined,
+    patientName: REDACTED,
+    patientFirstName: undefined,
+    patientLastName: undefined,
+    dateOfBirth: birthYear(r.dateOfBirth),
+  };
+}
+
+/** Header row followed by one row per report, restricted to `columns`. */
+export function buildExportRows(reports: Report[], options: ExportOptions): string[][] {
+  // The patient ID links rows back to a person, so it never goes out de-identified.
+  const cols = EXPORT_COLUMNS.filter(
+    (c) => options.columns.includes(c.key) && !(options.deidentify && c.key === "patientId")
+  );
+  const rows = reports.map((r) => {
+    const src = options.deidentify ? deidentifyReport(r) : r;
+    return cols.map((c) => String(src[c.key] ?? ""));
+  });
+  return [cols.map((c) => c.label), ...rows];
+}
+
+// Cells starting with these are evaluated as formulas by spreadsheet apps.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+/* =======================
+   Download
+   ======================= */
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Build the file in the requested format and hand it to the browser. */
+export function exportReports(reports: Report[], options: ExportOptions, baseName = "reports") {
+  const rows = buildExportRows(reports, options);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const suffix = options.deidentify ? "-deidentified" : "";
+
+  if (options.format === "xlsx") {
+    downloadBlob(buildXlsx(rows, "Reports"), `${baseName}-${stamp}${suffix}.xlsx`);
+  } else {
+    // BOM so Excel opens UTF-8 names correctly.
+    const blob = new Blob(["\uFEFF" + toCsv(rows)], { type: "text/csv;charset=utf-8" });
+    downloadBlob(blob, `${baseName}-${stamp}${suffix}.csv`);
+  }
+}
@@ -1,5 +1,16 @@
 
-import { User, Report, UserRole, ReportStatus, DashboardStats } from '../types';
+import { User, Report, UserRole, ReportStatus, Clinic, AuditEntry, AuditAction, AuditTargetType } from '../types';
+import { decodeJwtPayload } from './authTokens';
+import type { TokenSet } from './authTokens';
+import { validateReportCsv } from './csvValidation';
+import { groupForRole, roleFromGroups } from './permissions';
+import { canTransition, isAwaitingReview, isValidTransition } from './reportLifecycle';
+import { parseReportStatus } from './reportNormalizer';
+import { apiErrorFromResponse } from './apiErrors';
+
+// In-browser stand-in for the API Gateway backend, used when config.dataSource
+// is "mock". `handleMockRequest` answers the same paths and response shapes as
+// the real endpoints so api.ts, the normalizer and pagination run unchanged.
 
 export const MOCK_USERS: User[] = [
   { id: 'user-1', name: 'Dr. Alice Admin', email: 'admin@medisys.com', role: UserRole.ADMIN },
@@ -9,116 +20,640 @@ export const MOCK_USERS: User[] = [
 ];
 
 let MOCK_REPORTS: Report[] = [
-  { id: 'report-1', patientName: 'John Doe', patientGender: 'Male', diagnosticType: 'Blood Test', submissionDate: '2024-07-28', status: ReportStatus.APPROVED, uploaderId: 'user-3', uploaderName: 'Charlie Clinic', clinicName: 'Sunshine Clinic', fileUrl: '#' },
-  { id: 'report-2', patientName: 'Jane Smith', patientGender: 'Female', diagnosticType: 'X-Ray', submissionDate: '2024-07-27', status: ReportStatus.PENDING, uploaderId: 'user-3', uploaderName: 'Charlie Clinic', clinicName: 'Sunshine Clinic', fileUrl: '#' },
-  { id: 'report-3', patientName: 'Peter Jones', patientGender: 'Male', diagnosticType: 'MRI', submissionDate: '2024-07-26', status: ReportStatus.REJECTED, uploaderId: 'user-4', uploaderName: 'Diana Clinic', clinicName: 'Wellspring Health', fileUrl: '#' },
-  { id: 'report-4', patientName: 'Mary Williams', patientGender: 'Female', diagnosticType: 'Blood Test', submissionDate: '2024-07-25', status: ReportStatus.APPROVED, uploaderId: 'user-4', uploaderName: 'Diana Clinic', clinicName: 'Wellspring Health', fileUrl: '#' },
-  { id: 'report-5', patientName: 'David Brown', patientGender: 'Male', diagnosticType: 'Ultrasound', submissionDate: '2024-07-29', status: ReportStatus.PENDING, uploaderId: 'user-4', uploaderName: 'Diana Clinic', clinicName: 'Wellspring Health', fileUrl: '#' },
+  { id: 'report-1', patientId: 'P-1001', patientName: 'John Doe', patientFirstName: 'John', patientLastName: 'Doe', patientGender: 'Male', dateOfBirth: '1980-04-12', diagnosticType: 'Blood Test', diagnosisResult: 'Normal', bloodType: 'O+', lastChecked: '2024-07-20', submissionDate: '2024-07-28', status: ReportStatus.APPROVED, uploaderId: 'user-3', uploaderName: 'Charlie Clinic', clinicId: 'clinic-a', clinicName: 'Sunshine Clinic', fileUrl: '#' },
+  { id: 'report-2', patientId: 'P-1002', patientName: 'Jane Smith', patientFirstName: 'Jane', patientLastName: 'Smith', patientGender: 'Female', dateOfBirth: '1992-11-03', diagnosticType: 'X-Ray', diagnosisResult: 'Fracture', bloodType: 'A-', lastChecked: '2024-07-21', submissionDate: '2024-07-27', status: ReportStatus.PENDING, uploaderId: 'user-3', uploaderName: 'Charlie Clinic', clinicId: 'clinic-a', clinicName: 'Sunshine Clinic', fileUrl: '#' },
+  { id: 'report-3', patientId: 'P-2001', patientName: 'Peter Jones', patientFirstName: 'Peter', patientLastName: 'Jones', patientGender: 'Male', dateOfBirth: '1975-01-30', diagnosticType: 'MRI', diagnosisResult: 'Inconclusive', bloodType: 'B+', lastChecked: '2024-07-18', submissionDate: '2024-07-26', status: ReportStatus.REJECTED, uploaderId: 'user-4', uploaderName: 'Diana Clinic', clinicId: 'clinic-b', clinicName: 'Wellspring Health', fileUrl: '#', reviewNote: 'Image quality: Scan is too blurry to read.' },
+  { id: 'report-4', patientId: 'P-2002', patientName: 'Mary Williams', patientFirstName: 'Mary', patientLastName: 'Williams', patientGender: 'Female', dateOfBirth: '1968-06-22', diagnosticType: 'Blood Test', diagnosisResult: 'Anemia', bloodType: 'AB+', lastChecked: '2024-07-15', submissionDate: '2024-07-25', status: ReportStatus.APPROVED, uploaderId: 'user-4', uploaderName: 'Diana Clinic', clinicId: 'clinic-b', clinicName: 'Wellspring Health', fileUrl: '#' },
+  { id: 'report-6', patientId: 'P-1003', patientName: 'Laura Chen', patientFirstName: 'Laura', patientLastName: 'Chen', patientGender: 'Female', dateOfBirth: '1988-02-14', diagnosticType: 'CT Scan', diagnosisResult: '', bloodType: 'A+', lastChecked: '2024-07-23', submissionDate: '2024-07-30', status: ReportStatus.PROCESSING_FAILED, uploaderId: 'user-3', uploaderName: 'Charlie Clinic', clinicId: 'clinic-a', clinicName: 'Sunshine Clinic', fileUrl: '#', reviewNote: 'Processing failed: attached scan could not be read.' },
+  { id: 'report-5', patientId: 'P-2003', patientName: 'David Brown', patientFirstName: 'David', patientLastName: 'Brown', patientGender: 'Male', dateOfBirth: '2001-09-09', diagnosticType: 'Ultrasound', diagnosisResult: 'Normal', bloodType: 'O-', lastChecked: '2024-07-22', submissionDate: '2024-07-29', status: ReportStatus.PENDING, uploaderId: 'user-4', uploaderName: 'Diana Clinic', clinicId: 'clinic-b', clinicName: 'Wellspring Health', fileUrl: '#' },
+];
+
+// Clinic registry; `staffCount` is derived from MOCK_USERS when listed.
+let CLINICS: Omit<Clinic, 'staffCount'>[] = [
+  { id: 'clinic-a', name: 'Sunshine Clinic', contactName: 'Charlie Clinic', contactEmail: 'charlie@clinic.com', phone: '+1 555 0101', address: '12 Harbour Rd, Springfield', createdAt: '2024-07-01T09:00:00Z', archived: false },
+  { id: 'clinic-b', name: 'Wellspring Health', contactName: 'Diana Clinic', contactEmail: 'diana@clinic.com', phone: '+1 555 0102', address: '48 Elm St, Riverton', createdAt: '2024-07-01T09:00:00Z', archived: false },
 ];
 
+// Soft-deleted reports, newest deletion first; restorable by an admin.
+let DELETED_REPORTS: Report[] = [];
+
+// Audit trail, newest first. The seed entries explain how the seed reports got their status.
+let AUDIT_LOG: AuditEntry[] = [
+  { id: 'audit-seed-4', timestamp: '2024-07-29T10:15:00Z', actorId: 'user-1', actorName: 'Dr. Alice Admin', actorEmail: 'admin@medisys.com', action: 'report.review', targetType: 'report', targetId: 'report-4', statusBefore: ReportStatus.PENDING, statusAfter: ReportStatus.APPROVED },
+  { id: 'audit-seed-3', timestamp: '2024-07-28T16:40:00Z', actorId: 'user-1', actorName: 'Dr. Alice Admin', actorEmail: 'admin@medisys.com', action: 'report.review', targetType: 'report', targetId: 'report-3', note: 'Image quality: Scan is too blurry to read.', statusBefore: ReportStatus.PENDING, statusAfter: ReportStatus.REJECTED },
+  { id: 'audit-seed-1', timestamp: '2024-07-28T14:05:00Z', actorId: 'user-1', actorName: 'Dr. Alice Admin', actorEmail: 'admin@medisys.com', action: 'report.review', targetType: 'report', targetId: 'report-1', statusBefore: ReportStatus.PENDING, statusAfter: ReportStatus.APPROVED },
+];
+
+// createdAt for users added during the session; seed users share a fixed date.
+const CREATED_AT: Record<string, string> = {};
+// Account state by user id; absent means enabled and CONFIRMED, like the seed users.
+const ACCOUNT_STATE: Record<string, { enabled?: boolean; status?: string }> = {};
+
+/* =======================
+   Persistence
+   ======================= */
+
+// Keep edits across reloads within the tab so demos don't reset on F5.
+const DB_KEY = 'medisys_mock_db';
+
+function loadDb() {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(DB_KEY) || 'null');
+    if (saved?.reports && saved?.users) {
+      // Older snapshots may hold other spellings (e.g. "Pending Review").
+      MOCK_REPORTS = saved.reports.map((r: Report) => ({ ...r, status: parseReportStatus(r.status) }));
+      DELETED_REPORTS = saved.deletedReports ?? [];
+      if (saved.clinics) CLINICS = saved.clinics;
+      if (saved.auditLog) AUDIT_LOG = saved.auditLog;
+      MOCK_USERS.splice(0, MOCK_USERS.length, ...saved.users);
+      Object.assign(CREATED_AT, saved.createdAt);
+      Object.assign(ACCOUNT_STATE, saved.accountState);
+    }
+  } catch {
+    // corrupt snapshot: start from the seed data
+  }
+}
+
+function saveDb() {
+  sessionStorage.setItem(DB_KEY, JSON.stringify({ reports: MOCK_REPORTS, deletedReports: DELETED_REPORTS, clinics: CLINICS, auditLog: AUDIT_LOG, users: MOCK_USERS, createdAt: CREATED_AT, accountState: ACCOUNT_STATE }));
+}
+
+loadDb();
+
+/* =======================
+   Mock session
+   ======================= */
+
+const MOCK_SESSION_HOURS = 8;
+
+function base64Url(value: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  let bin = '';
+  bytes.forEach(b => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Unsigned ID token with the same claims Cognito issues, so AuthContext,
+ * permissions and the session timer treat a persona like a real sign-in.
+ */
+export function createMockSession(userId: string): TokenSet {
+  const user = MOCK_USERS.find(u => u.id === userId);
+  if (!user) throw new Error(`Unknown mock user ${userId}`);
+  if (ACCOUNT_STATE[user.id]?.enabled === false) throw new Error('User is disabled.');
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = [
+    base64Url({ alg: 'none', typ: 'JWT' }),
+    base64Url({
+      sub: user.id,
+      name: user.name,
+      email: user.email,
+      'cognito:groups': [groupForRole(user.role)],
+      'custom:clinicId': user.clinicId,
+      'custom:clinicName': user.clinicName,
+      iat: now,
+      exp: now + MOCK_SESSION_HOURS * 3600,
+    }),
+    'mock',
+  ].join('.');
+  return { idToken, accessToken: idToken, refreshToken: null };
+}
+
+function callerFromToken(idToken: string): User {
+  const claims = decodeJwtPayload<any>(idToken);
+  const user = MOCK_USERS.find(u => u.id === claims.sub);
+  if (!user) fail(401, 'Unauthorized');
+  return { ...user, role: roleFromGroups(claims['cognito:groups']) };
+}
+
+/* =======================
+   Helpers
+   ======================= */
+
+const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+function fail(status: number, message: string): never {
+  throw apiErrorFromResponse(status, { message, requestId: `mock-${Date.now()}` });
+}
+
+function requireRole(user: User, ...roles: UserRole[]) {
+  if (!roles.includes(user.role)) fail(403, 'Forbidden');
+}
+
+const byNewest = (a: Report, b: Report) =>
+  new Date(b.submissionDate).getTime() - new Date(a.submissionDate).getTime();
+
+// Same envelope the real list endpoints use: `cursor` is an opaque offset here.
+function paginate<T>(items: T[], query: URLSearchParams, cursorParam = 'cursor') {
+  const limit = Math.max(1, Number(query.get('limit')) || items.length || 1);
+  const offset = Number(query.get(cursorParam)) || 0;
+  const end = offset + limit;
+  return { items: items.slice(offset, end), nextCursor: end < items.length ? String(end) : null };
+}
+
+function countBy(reports: Report[], key: keyof Report): Record<string, number> {
+  return reports.reduce((acc, r) => {
+    const k = String(r[key] ?? '').trim() || 'Unknown';
+    acc[k] = (acc[k] ?? 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+}
+
+function toUserRecord(u: User) {
+  return {
+    username: u.email,
+    email: u.email,
+    name: u.name,
+    groups: [groupForRole(u.role)],
+    clinicId: u.clinicId,
+    clinicName: CLINICS.find(c => c.id === u.clinicId)?.name ?? u.clinicName,
+    createdAt: CREATED_AT[u.id] ?? '2024-07-01T09:00:00Z',
+    enabled: ACCOUNT_STATE[u.id]?.enabled ?? true,
+    userStatus: ACCOUNT_STATE[u.id]?.status ?? 'CONFIRMED',
+  };
+}
+
+function findUser(body: any): User {
+  const email = String(body?.email ?? body?.username ?? '').toLowerCase();
+  const found = MOCK_USERS.find(u => u.email.toLowerCase() === email);
+  if (!found) fail(404, 'User not found');
+  return found;
+}
+
+// What the backend's audit table stores for each admin action; call before saveDb().
+function audit(
+  actor: User,
+  action: AuditAction,
+  targetType: AuditTargetType,
+  targetId: string,
+  details: Pick<AuditEntry, 'note' | 'statusBefore' | 'statusAfter'> = {}
+) {
+  AUDIT_LOG.unshift({
+    id: `audit-${Date.now()}-${AUDIT_LOG.length}`,
+    timestamp: new Date().toISOString(),
+    actorId: actor.id,
+    actorName: actor.name,
+    actorEmail: actor.email,
+    action,
+    targetType,
+    targetId,
+    ...details,
+  });
+}
+
+// Stands in for the processing Lambda: a report sent back to Processing lands in review shortly after.
+const PIPELINE: User = { id: 'system', name: 'Processing pipeline', email: '', role: UserRole.ADMIN };
+const PROCESSING_MS = 3000;
+
+function scheduleProcessing(reportId: string) {
+  setTimeout(() => {
+    const report = MOCK_REPORTS.find(r => r.id === reportId);
+    if (report?.status !== ReportStatus.PROCESSING) return;
+    audit(PIPELINE, 'report.status', 'report', reportId, { statusBefore: report.status, statusAfter: ReportStatus.PENDING });
+    report.status = ReportStatus.PENDING;
+    saveDb();
+  }, PROCESSING_MS);
+}
+
+function findClinic(id: string) {
+  const found = CLINICS.find(c => c.id === id);
+  if (!found) fail(404, `Clinic ${id} not found`);
+  return found;
+}
+
+// Users can only be assigned to clinics that exist and are not archived.
+function assignableClinic(id: unknown) {
+  const key = String(id ?? '').trim().toUpperCase();
+  const clinic = CLINICS.find(c => c.id.toUpperCase() === key);
+  if (!clinic) fail(400, `Unknown clinic ${id}`);
+  if (clinic.archived) fail(400, `Clinic ${clinic.id} is archived`);
+  return clinic;
+}
+
+/* =======================
+   Endpoints
+   ======================= */
+
+// POST /reports/:id/<action> → the status it moves the report to.
+const TRANSITION_TARGETS: Record<string, ReportStatus> = {
+  resubmit: ReportStatus.RESUBMITTED,
+  reprocess: ReportStatus.PROCESSING,
+  archive: ReportStatus.ARCHIVED,
+};
+
 const api = {
-  getReports: async (user: User): Promise<Report[]> => {
-    await new Promise(res => setTimeout(res, 500)); // Simulate network delay
-    switch (user.role) {
-      case UserRole.ADMIN:
-        return MOCK_REPORTS.sort((a, b) => new Date(b.submissionDate).getTime() - new Date(a.submissionDate).getTime());
-      case UserRole.STAFF:
-        return MOCK_REPORTS.filter(r => r.status === ReportStatus.APPROVED).sort((a, b) => new Date(b.submissionDate).getTime() - new Date(a.submissionDate).getTime());
-      case UserRole.CLINIC:
-        return MOCK_REPORTS.filter(r => r.uploaderId === user.id).sort((a, b) => new Date(b.submissionDate).getTime() - new Date(a.submissionDate).getTime());
+  getReports: (user: User, scope: 'my' | 'approved' | 'all'): Report[] => {
+    switch (scope) {
+      case 'all':
+        requireRole(user, UserRole.ADMIN);
+        return [...MOCK_REPORTS].sort(byNewest);
+      case 'approved':
+        requireRole(user, UserRole.ADMIN, UserRole.STAFF);
+        return MOCK_REPORTS.filter(r => r.status === ReportStatus.APPROVED).sort(byNewest);
+      case 'my':
       default:
-        return [];
+        return MOCK_REPORTS.filter(r => r.uploaderId === user.id).sort(byNewest);
     }
   },
 
-  updateReportStatus: async (reportId: string, status: ReportStatus): Promise<Report> => {
-    await new Promise(res => setTimeout(res, 300));
-    const reportIndex = MOCK_REPORTS.findIndex(r => r.id === reportId);
-    if (reportIndex > -1) {
-      MOCK_REPORTS[reportIndex].status = status;
-      if(status === ReportStatus.APPROVED) {
-        // Here you would trigger an SNS/SES notification to MediSys staff
-        console.log(`Notification: Report ${reportId} approved. Notifying MediSys staff.`);
-      }
-      return MOCK_REPORTS[reportIndex];
+  // Any status change goes through the lifecycle table, as the real endpoint does.
+  updateReportStatus: (user: User, reportId: string, status: ReportStatus, note?: string) => {
+    const report = MOCK_REPORTS.find(r => r.id === reportId);
+    if (!report || (user.role === UserRole.CLINIC && report.uploaderId !== user.id)) fail(404, 'Report not found');
+    if (!isValidTransition(report.status, status)) fail(409, `Cannot move a report from ${report.status} to ${status}`);
+    if (!canTransition(user.role, report.status, status)) fail(403, 'Forbidden');
+    const isReview = status === ReportStatus.APPROVED || status === ReportStatus.REJECTED;
+    audit(user, isReview ? 'report.review' : 'report.status', 'report', reportId, { note: note || undefined, statusBefore: report.status, statusAfter: status });
+    report.status = status;
+    if (isReview) report.reviewNote = note || undefined;
+    if (status === ReportStatus.PROCESSING) scheduleProcessing(reportId);
+    if (status === ReportStatus.APPROVED) {
+      // Here you would trigger an SNS/SES notification to MediSys staff
+      console.log(`Notification: Report ${reportId} approved. Notifying MediSys staff.`);
     }
-    throw new Error('Report not found');
-  },
-
-  deleteReport: async (reportId: string): Promise<void> => {
-     await new Promise(res => setTimeout(res, 300));
-     MOCK_REPORTS = MOCK_REPORTS.filter(r => r.id !== reportId);
-  },
-
-  uploadReport: async (file: File, uploader: User): Promise<Report> => {
-    await new Promise(res => setTimeout(res, 1000));
-     // Here you would upload to S3, then trigger a Lambda
-    const newReport: Report = {
-      id: `report-${Date.now()}`,
-      patientName: 'New Patient', // Lambda would parse this from the file
-      patientGender: Math.random() > 0.5 ? 'Male' : 'Female',
-      diagnosticType: ['Blood Test', 'X-Ray', 'MRI'][Math.floor(Math.random() * 3)],
-      submissionDate: new Date().toISOString().split('T')[0],
-      status: ReportStatus.PENDING,
-      uploaderId: uploader.id,
-      uploaderName: uploader.name,
-      clinicName: uploader.clinicName || 'N/A',
-      fileUrl: '#',
-    };
-    MOCK_REPORTS.unshift(newReport);
-     // Here an SNS/SES notification would be sent to Admins
-    console.log(`Notification: New report ${newReport.id} submitted. Notifying Admins.`);
-    return newReport;
+    saveDb();
+    return { message: `Report ${reportId} ${status.toLowerCase()}` };
+  },
+
+  // Soft delete, like the real table's DeletedAt flag: the row leaves every list but can be restored.
+  deleteReport: (user: User, reportId: string) => {
+    requireRole(user, UserRole.ADMIN);
+    const report = MOCK_REPORTS.find(r => r.id === reportId);
+    if (!report) fail(404, 'Report not found');
+    MOCK_REPORTS = MOCK_REPORTS.filter(r => r.id !== reportId);
+    DELETED_REPORTS.unshift({ ...report, deletedAt: new Date().toISOString(), deletedBy: user.name });
+    audit(user, 'report.delete', 'report', reportId, { statusBefore: report.status });
+    saveDb();
+    return { message: `Report ${reportId} deleted` };
+  },
+
+  getDeletedReports: (user: User): Report[] => {
+    requireRole(user, UserRole.ADMIN);
+    return [...DELETED_REPORTS];
   },
-  
-  getUsers: async (): Promise<User[]> => {
-    await new Promise(res => setTimeout(res, 500));
-    return MOCK_USERS;
+
+  restoreReport: (user: User, reportId: string) => {
+    requireRole(user, UserRole.ADMIN);
+    const report = DELETED_REPORTS.find(r => r.id === reportId);
+    if (!report) fail(404, 'Deleted report not found');
+    DELETED_REPORTS = DELETED_REPORTS.filter(r => r.id !== reportId);
+    const { deletedAt, deletedBy, ...restored } = report;
+    MOCK_REPORTS.push(restored);
+    audit(user, 'report.restore', 'report', reportId, { statusAfter: restored.status });
+    saveDb();
+    return { message: `Report ${reportId} restored` };
   },
 
-  createUser: async (name: string, email: string, role: UserRole, clinicName: string): Promise<User> => {
-    await new Promise(res => setTimeout(res, 500));
+  // What the S3-triggered Lambda does in the real stack: one report per valid CSV row.
+  uploadReport: async (file: Blob, uploader: User): Promise<Report[]> => {
+    const { rows } = validateReportCsv(await file.text());
+    const today = new Date().toISOString().split('T')[0];
+    const created = rows
+      .filter(row => row.errors.length === 0)
+      .map((row, i): Report => {
+        const v = row.values;
+        return {
+          id: `report-${Date.now()}-${i}`,
+          patientId: v.PATIENT_ID,
+          patientName: `${v.PATIENTFIRSTNAME} ${v.PATIENTLASTNAME}`.trim(),
+          patientFirstName: v.PATIENTFIRSTNAME,
+          patientLastName: v.PATIENTLASTNAME,
+          patientGender: /^f/i.test(v.PATIENTGENDER) ? 'Female' : /^m/i.test(v.PATIENTGENDER) ? 'Male' : 'Other',
+          dateOfBirth: v.DATEOFBIRTH,
+          diagnosticType: v.DIAGNOSTICTYPE,
+          diagnosisResult: v.DIAGNOSISRESULT,
+          bloodType: v.BLOODTYPE.toUpperCase().replace(/\s+/g, ''),
+          lastChecked: v.LASTCHECKED,
+          submissionDate: today,
+          status: ReportStatus.PENDING,
+          uploaderId: uploader.id,
+          uploaderName: uploader.name,
+          clinicId: uploader.clinicId,
+          clinicName: uploader.clinicName || 'N/A',
+          fileUrl: '#',
+        };
+      });
+    MOCK_REPORTS.unshift(...created);
+    created.forEach(r => audit(uploader, 'report.upload', 'report', r.id, { statusAfter: r.status }));
+    saveDb();
+    // Here an SNS/SES notification would be sent to Admins
+    console.log(`Notification: ${created.length} new report(s) submitted. Notifying Admins.`);
+    return created;
+  },
+
+  getUsers: (user: User) => {
+    requireRole(user, UserRole.ADMIN);
+    return MOCK_USERS.map(toUserRecord);
+  },
+
+  createUser: (user: User, body: any) => {
+    requireRole(user, UserRole.ADMIN);
+    const email = String(body?.email ?? '').trim();
+    if (!email) fail(400, 'email is required');
+    if (MOCK_USERS.some(u => u.email.toLowerCase() === email.toLowerCase())) {
+      fail(409, `User ${email} already exists`);
+    }
+    const role = roleFromGroups([body?.role, body?.group].filter(Boolean));
+    if (role === UserRole.CLINIC && !body?.clinicId) fail(400, 'Clinic users need a clinicId');
+    const clinic = role === UserRole.CLINIC ? assignableClinic(body.clinicId) : undefined;
+    const clinicId = clinic?.id;
     const newUser: User = {
       id: `user-${Date.now()}`,
-      name,
+      name: body?.name || email.split('@')[0],
       email,
       role,
-      clinicId: role === UserRole.CLINIC ? `clinic-${Date.now()}` : undefined,
-      clinicName: role === UserRole.CLINIC ? clinicName : undefined,
+      clinicId,
+      clinicName: clinic?.name,
     };
     MOCK_USERS.push(newUser);
-    return newUser;
-  },
-  
-  getDashboardStats: async (): Promise<DashboardStats> => {
-    await new Promise(res => setTimeout(res, 700));
-    
-    const stats: DashboardStats = {
-      totalReports: MOCK_REPORTS.length,
-      approvedReports: MOCK_REPORTS.filter(r => r.status === ReportStatus.APPROVED).length,
-      pendingReports: MOCK_REPORTS.filter(r => r.status === ReportStatus.PENDING).length,
-      rejectedReports: MOCK_REPORTS.filter(r => r.status === ReportStatus.REJECTED).length,
-      casesByDiagnostic: MOCK_REPORTS.reduce((acc, report) => {
-        const existing = acc.find(item => item.name === report.diagnosticType);
-        if (existing) {
-          existing.value++;
-        } else {
-          acc.push({ name: report.diagnosticType, value: 1 });
-        }
-        return acc;
-      }, [] as { name: string; value: number }[]),
-      genderDistribution: MOCK_REPORTS.reduce((acc, report) => {
-        const existing = acc.find(item => item.name === report.patientGender);
-        if (existing) {
-          existing.value++;
-        } else {
-          acc.push({ name: report.patientGender, value: 1 });
-        }
-        return acc;
-      }, [] as { name: string; value: number }[]),
+    CREATED_AT[newUser.id] = new Date().toISOString();
+    // AdminCreateUser sends a temporary password that must be changed on first sign-in.
+    ACCOUNT_STATE[newUser.id] = { status: 'FORCE_CHANGE_PASSWORD' };
+    audit(user, 'user.create', 'user', email, { note: clinicId ? `${role}, ${clinicId}` : role });
+    saveDb();
+    return { message: `User ${email} created`, clinicId };
+  },
+
+  deleteUser: (user: User, body: any) => {
+    requireRole(user, UserRole.ADMIN);
+    const email = String(body?.email ?? body?.username ?? '').toLowerCase();
+    const index = MOCK_USERS.findIndex(u => u.email.toLowerCase() === email);
+    if (index < 0) fail(404, 'User not found');
+    if (MOCK_USERS[index].id === user.id) fail(400, 'You cannot delete your own account');
+    MOCK_USERS.splice(index, 1);
+    audit(user, 'user.delete', 'user', email);
+    saveDb();
+    return { message: `User ${email} deleted` };
+  },
+
+  updateUser: (user: User, body: any) => {
+    requireRole(user, UserRole.ADMIN);
+    const target = findUser(body);
+    const before = { role: target.role, clinicId: target.clinicId, name: target.name };
+    const groups = [body?.role, body?.group].filter(Boolean);
+    if (groups.length) {
+      const role = roleFromGroups(groups);
+      if (target.id === user.id && role !== UserRole.ADMIN) fail(400, 'You cannot remove your own admin role');
+      target.role = role;
+    }
+    if (body?.clinicId !== undefined) {
+      // Staying in an archived clinic is fine; moving into one is not.
+      const clinic = body.clinicId && body.clinicId !== target.clinicId ? assignableClinic(body.clinicId) : undefined;
+      if (clinic) {
+        target.clinicId = clinic.id;
+        target.clinicName = clinic.name;
+      } else if (!body.clinicId) {
+        target.clinicId = undefined;
+        target.clinicName = undefined;
+      }
+    }
+    if (target.role === UserRole.CLINIC && !target.clinicId) fail(400, 'Clinic users need a clinicId');
+    if (target.role !== UserRole.CLINIC) {
+      target.clinicId = undefined;
+      target.clinicName = undefined;
+    }
+    if (body?.name) target.name = String(body.name);
+    const changes = (['role', 'clinicId', 'name'] as const)
+      .filter(k => before[k] !== target[k])
+      .map(k => `${k}: ${before[k] ?? 'none'} → ${target[k] ?? 'none'}`);
+    if (changes.length) audit(user, 'user.update', 'user', target.email, { note: changes.join('; ') });
+    saveDb();
+    return { message: `User ${target.email} updated` };
+  },
+
+  setUserEnabled: (user: User, body: any, enabled: boolean) => {
+    requireRole(user, UserRole.ADMIN);
+    const target = findUser(body);
+    if (target.id === user.id && !enabled) fail(400, 'You cannot disable your own account');
+    ACCOUNT_STATE[target.id] = { ...ACCOUNT_STATE[target.id], enabled };
+    audit(user, enabled ? 'user.enable' : 'user.disable', 'user', target.email);
+    saveDb();
+    return { message: `User ${target.email} ${enabled ? 'enabled' : 'disabled'}` };
+  },
+
+  resetPassword: (user: User, body: any) => {
+    requireRole(user, UserRole.ADMIN);
+    const target = findUser(body);
+    ACCOUNT_STATE[target.id] = { ...ACCOUNT_STATE[target.id], status: 'RESET_REQUIRED' };
+    audit(user, 'user.resetPassword', 'user', target.email);
+    saveDb();
+    // Cognito emails the verification code here
+    console.log(`Notification: password reset code sent to ${target.email}.`);
+    return { message: `Password reset sent to ${target.email}` };
+  },
+
+  getClinics: (user: User): Clinic[] => {
+    requireRole(user, UserRole.ADMIN);
+    return CLINICS.map(c => ({ ...c, staffCount: MOCK_USERS.filter(u => u.clinicId === c.id).length }));
+  },
+
+  createClinic: (user: User, body: any) => {
+    requireRole(user, UserRole.ADMIN);
+    const id = String(body?.clinicId ?? '').trim().toUpperCase();
+    const name = String(body?.name ?? '').trim();
+    if (!/^CLINIC_[0-9]+$/.test(id)) fail(400, 'clinicId must look like CLINIC_001');
+    if (!name) fail(400, 'name is required');
+    if (CLINICS.some(c => c.id === id)) fail(409, `Clinic ${id} already exists`);
+    if (CLINICS.some(c => c.name.toLowerCase() === name.toLowerCase())) fail(409, `A clinic named ${name} already exists`);
+    CLINICS.push({
+      id,
+      name,
+      contactName: body?.contactName || undefined,
+      contactEmail: body?.contactEmail || undefined,
+      phone: body?.phone || undefined,
+      address: body?.address || undefined,
+      createdAt: new Date().toISOString(),
+      archived: false,
+    });
+    audit(user, 'clinic.create', 'clinic', id, { note: name });
+    saveDb();
+    return { message: `Clinic ${id} created` };
+  },
+
+  updateClinic: (user: User, id: string, body: any) => {
+    requireRole(user, UserRole.ADMIN);
+    const clinic = findClinic(id);
+    const before = { ...clinic };
+    if (body?.name !== undefined) {
+      const name = String(body.name).trim();
+      if (!name) fail(400, 'name is required');
+      if (CLINICS.some(c => c.id !== id && c.name.toLowerCase() === name.toLowerCase())) {
+        fail(409, `A clinic named ${name} already exists`);
+      }
+      clinic.name = name;
+      // Reports and session claims carry a copy of the clinic name.
+      MOCK_REPORTS.forEach(r => {
+        if (r.clinicId === id) r.clinicName = name;
+      });
+      MOCK_USERS.forEach(u => {
+        if (u.clinicId === id) u.clinicName = name;
+      });
+    }
+    for (const key of ['contactName', 'contactEmail', 'phone', 'address'] as const) {
+      if (body?.[key] !== undefined) clinic[key] = String(body[key]).trim() || undefined;
+    }
+    const changed = (['name', 'contactName', 'contactEmail', 'phone', 'address'] as const).filter(k => before[k] !== clinic[k]);
+    if (changed.length) audit(user, 'clinic.update', 'clinic', id, { note: `Changed ${changed.join(', ')}` });
+    saveDb();
+    return { message: `Clinic ${id} updated` };
+  },
+
+  setClinicArchived: (user: User, id: string, archived: boolean) => {
+    requireRole(user, UserRole.ADMIN);
+    const clinic = findClinic(id);
+    clinic.archived = archived;
+    clinic.archivedAt = archived ? new Date().toISOString() : undefined;
+    audit(user, archived ? 'clinic.archive' : 'clinic.unarchive', 'clinic', id);
+    saveDb();
+    return { message: `Clinic ${id} ${archived ? 'archived' : 'restored'}` };
+  },
+
+  getAuditLog: (user: User): AuditEntry[] => {
+    requireRole(user, UserRole.ADMIN);
+    return AUDIT_LOG;
+  },
+
+  getReportHistory: (user: User, reportId: string): AuditEntry[] => {
+    requireRole(user, UserRole.ADMIN);
+    return AUDIT_LOG.filter(e => e.targetType === 'report' && e.targetId === reportId);
+  },
+
+  getDashboardStats: (user: User) => {
+    const visible = user.role === UserRole.CLINIC ? MOCK_REPORTS.filter(r => r.uploaderId === user.id) : MOCK_REPORTS;
+    const approved = visible.filter(r => r.status === ReportStatus.APPROVED);
+    return {
+      totalReports: visible.length,
+      approvedReports: approved.length,
+      pendingReports: visible.filter(r => isAwaitingReview(r.status)).length,
+      rejectedReports: visible.filter(r => r.status === ReportStatus.REJECTED).length,
+      byDiagnosticTypeApproved: countBy(approved, 'diagnosticType'),
+      byDiagnosisResultApproved: countBy(approved, 'diagnosisResult'),
+      byBloodTypeApproved: countBy(approved, 'bloodType'),
+      byGenderApproved: countBy(approved, 'patientGender'),
     };
-    return stats;
-  }
+  },
 };
 
+/* =======================
+   Router
+   ======================= */
+
+// Presigned URLs handed out in mock mode; uploadService hands these to `putMockUpload`.
+const MOCK_UPLOAD_SCHEME = 'mock-s3:';
+const pendingUploads = new Map<string, User>();
+
+/** Answer an api.ts request as the backend would, including the typed errors for 4xx responses. */
+export async function handleMockRequest<T>(
+  path: string,
+  method: string,
+  body: unknown,
+  idToken: string
+): Promise<T> {
+  await delay(300); // Simulate network delay
+  const user = callerFromToken(idToken);
+  const url = new URL(path, 'http://mock');
+  const route = `${method} ${url.pathname}`;
+  const data = body as any;
+
+  const reviewMatch = url.pathname.match(/^\/review-report\/([^/]+)$/);
+  if (reviewMatch) {
+    const id = decodeURIComponent(reviewMatch[1]);
+    if (method === 'PUT') {
+      // Decisions only; the other lifecycle moves have their own endpoints below.
+      if (data?.status !== ReportStatus.APPROVED && data?.status !== ReportStatus.REJECTED) {
+        fail(400, `status must be ${ReportStatus.APPROVED} or ${ReportStatus.REJECTED}`);
+      }
+      return api.updateReportStatus(user, id, data.status, data?.note) as T;
+    }
+    if (method === 'DELETE') return api.deleteReport(user, id) as T;
+  }
+  const restoreMatch = url.pathname.match(/^\/restore-report\/([^/]+)$/);
+  if (restoreMatch && method === 'POST') {
+    return api.restoreReport(user, decodeURIComponent(restoreMatch[1])) as T;
+  }
+
+  const transitionMatch = url.pathname.match(/^\/reports\/([^/]+)\/(resubmit|reprocess|archive)$/);
+  if (transitionMatch && method === 'POST') {
+    const target = TRANSITION_TARGETS[transitionMatch[2]];
+    return api.updateReportStatus(user, decodeURIComponent(transitionMatch[1]), target, data?.note) as T;
+  }
+
+  const historyMatch = url.pathname.match(/^\/reports\/([^/]+)\/history$/);
+  if (historyMatch && method === 'GET') {
+    return paginate(api.getReportHistory(user, decodeURIComponent(historyMatch[1])), url.searchParams) as T;
+  }
+
+  const clinicMatch = url.pathname.match(/^\/clinics\/([^/]+)(?:\/(archive|unarchive))?$/);
+  if (clinicMatch) {
+    const id = decodeURIComponent(clinicMatch[1]);
+    if (method === 'PUT' && !clinicMatch[2]) return api.updateClinic(user, id, data) as T;
+    if (method === 'POST' && clinicMatch[2]) return api.setClinicArchived(user, id, clinicMatch[2] === 'archive') as T;
+  }
+
+  switch (route) {
+    case 'GET /my-reports':
+      return paginate(api.getReports(user, 'my'), url.searchParams) as T;
+    case 'GET /approved-reports':
+      return paginate(api.getReports(user, 'approved'), url.searchParams) as T;
+    case 'GET /all-reports':
+      return paginate(api.getReports(user, 'all'), url.searchParams) as T;
+    case 'GET /deleted-reports':
+      return paginate(api.getDeletedReports(user), url.searchParams) as T;
+    case 'GET /dashboard-stats':
+      return api.getDashboardStats(user) as T;
+    case 'GET /all-users': {
+      // Cognito ListUsers shape: no token on the last page.
+      const page = paginate(api.getUsers(user), url.searchParams, 'paginationToken');
+      return { Users: page.items, ...(page.nextCursor ? { PaginationToken: page.nextCursor } : {}) } as T;
+    }
+    case 'POST /user':
+      return api.createUser(user, data) as T;
+    case 'PUT /user':
+      return api.updateUser(user, data) as T;
+    case 'DELETE /user':
+      return api.deleteUser(user, data) as T;
+    case 'POST /user/enable':
+      return api.setUserEnabled(user, data, true) as T;
+    case 'POST /user/disable':
+      return api.setUserEnabled(user, data, false) as T;
+    case 'POST /user/reset-password':
+      return api.resetPassword(user, data) as T;
+    case 'GET /audit-log':
+      return paginate(api.getAuditLog(user), url.searchParams) as T;
+    case 'GET /clinics':
+      return paginate(api.getClinics(user), url.searchParams) as T;
+    case 'POST /clinics':
+      return api.createClinic(user, data) as T;
+    case 'POST /upload-reports': {
+      requireRole(user, UserRole.CLINIC);
+      const key = `uploads/${user.clinicId ?? user.id}/${Date.now()}-${data?.filename ?? 'report.csv'}`;
+      pendingUploads.set(key, user);
+      return { uploadUrl: `${MOCK_UPLOAD_SCHEME}${key}`, key } as T;
+    }
+  }
+
+  fail(404, `No mock handler for ${route}`);
+}
+
+/** Stand-in for the S3 PUT: reports progress over about a second, then ingests the CSV. */
+export async function putMockUpload(
+  uploadUrl: string,
+  file: Blob,
+  onProgress?: (p: { loaded: number; total: number }) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const key = uploadUrl.slice(MOCK_UPLOAD_SCHEME.length);
+  const uploader = pendingUploads.get(key);
+  if (!uploader) fail(403, 'Presigned URL is not valid');
+
+  const steps = 10;
+  for (let i = 1; i <= steps; i++) {
+    if (signal?.aborted) throw new DOMException('Upload cancelled', 'AbortError');
+    await delay(100);
+    onProgress?.({ loaded: Math.round((file.size * i) / steps), total: file.size });
+  }
+  pendingUploads.delete(key);
+  await api.uploadReport(file, uploader);
+}
+
 export default api;
@@ -0,0 +1,102 @@
+// src/services/permissions.ts
+// Single source of truth for Cognito group -> role mapping and what each role
+// may do. UI code asks for capabilities (`report.review`) rather than roles.
+import { UserRole } from "../types";
+
+/* =======================
+   Cognito groups
+   ======================= */
+
+/** Canonical group names the backend assigns when creating users. */
+export type CognitoGroup = "MedisysAdmin" | "MedisysStaff" | "ClinicStaff";
+
+// Older pools and the API's user listing use a few spellings; all map here.
+const GROUP_ALIASES: Record<UserRole, readonly string[]> = {
+  [UserRole.ADMIN]: ["MedisysAdmin", "MedSysAdmin", "Admin"],
+  [UserRole.STAFF]: ["MedisysStaff", "MedSysStaff", "Staff"],
+  [UserRole.CLINIC]: ["ClinicStaff", "ClinicUser"],
+};
+
+// Highest privilege wins when a user is in several groups.
+const ROLE_PRECEDENCE: UserRole[] = [UserRole.ADMIN, UserRole.STAFF, UserRole.CLINIC];
+
+/** Map `cognito:groups` (or the API's `groups`) to a role. Unknown or missing groups get the least privilege. */
+export function roleFromGroups(groups: readonly string[] | null | undefined): UserRole {
+  const g = groups ?? [];
+  return ROLE_PRECEDENCE.find((role) => GROUP_ALIASES[role].some((a) => g.includes(a))) ?? UserRole.CLINIC;
+}
+
+// Short codes some user-listing responses put in `role`.
+const ROLE_CODES: Record<string, UserRole> = {
+  ADMIN: UserRole.ADMIN,
+  STAFF: UserRole.STAFF,
+  CLINIC: UserRole.CLINIC,
+};
+
+/** Role of a user record from the admin API, which may carry `role`, `groups` or `Groups`. */
+export function roleFromUserRecord(record: { role?: unknown; groups?: unknown; Groups?: unknown }): UserRole {
+  const role = typeof record.role === "string" ? record.role : "";
+  if (ROLE_CODES[role.toUpperCase()]) return ROLE_CODES[role.toUpperCase()];
+  const groups = record.groups ?? record.Groups;
+  return roleFromGroups([...(Array.isArray(groups) ? groups : []), role]);
+}
+
+export function groupForRole(role: UserRole): CognitoGroup {
+  return GROUP_ALIASES[role][0] as CognitoGroup;
+}
+
+/* =======================
+   Capabilities
+   ======================= */
+
+export type Permission =
+  | "dashboard.view"
+  | "report.read.own"
+  | "report.read.approved"
+  | "report.read.all"
+  | "report.upload"
+  | "report.review"
+  | "report.resubmit"
+  | "report.reprocess"
+  | "report.archive"
+  | "report.delete"
+  | "report.export"
+  | "user.view"
+  | "user.create"
+  | "user.update"
+  | "user.delete"
+  | "clinic.view"
+  | "clinic.manage"
+  | "audit.view";
+
+const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.ADMIN]: [
+    "dashboard.view",
+    "report.read.all",
+    "report.review",
+    "report.reprocess",
+    "report.archive",
+    "report.delete",
+    "report.export",
+    "user.view",
+    "user.create",
+    "user.update",
+    "user.delete",
+    "clinic.view",
+    "clinic.manage",
+    "audit.view",
+  ],
+  [UserRole.STAFF]: ["dashboard.view", "report.read.approved", "report.export"],
+  [UserRole.CLINIC]: [
+    "dashboard.view",
+    "report.read.own",
+    "report.upload",
+    "report.resubmit",
+    "report.reprocess",
+    "report.export",
+  ],
+};
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,204 @@
+// src/services/queryCache.ts
+// In-memory query cache: stale-while-revalidate reads, one in-flight request per
+// key, prefix invalidation after mutations and optimistic writes with rollback.
+
+/** Hierarchical key, e.g. ["reports", "all"]. Invalidating ["reports"] hits every scope. */
+export type QueryKey = readonly (string | number)[];
+
+export const DEFAULT_STALE_MS = 30 * 1000;
+
+interface Entry {
+  key: QueryKey;
+  data?: unknown;
+  error?: unknown;
+  /** 0 means stale / never fetched. */
+  updatedAt: number;
+  promise?: Promise<unknown>;
+  fetcher?: () => Promise<unknown>;
+  // Bumped by invalidation and local writes so an older response can't overwrite them.
+  generation: number;
+  listeners: Set<() => void>;
+}
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+const cache = new Map<string, Entry>();
+const hashKey = (key: QueryKey) => JSON.stringify(key);
+
+function entryFor(key: QueryKey): Entry {
+  const hash = hashKey(key);
+  let entry = cache.get(hash);
+  if (!entry) {
+    entry = { key, updatedAt: 0, generation: 0, listeners: new Set() };
+    cache.set(hash, entry);
+  }
+  return entry;
+}
+
+function notify(entry: Entry) {
+  entry.listeners.forEach((l) => l());
+}
+
+function matches(entry: Entry, prefix: QueryKey): boolean {
+  return prefix.every((part, i) => entry.key[i] === part);
+}
+
+/* =======================
+   Reads
+   ======================= */
+
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  const entry = cache.get(hashKey(key));
+  return {
+    data: entry?.data as T | undefined,
+    error: entry?.error,
+    updatedAt: entry?.updatedAt ?? 0,
+    isFetching: !!entry?.promise,
+  };
+}
+
+export function isStale(key: QueryKey, staleTime = DEFAULT_STALE_MS): boolean {
+  const entry = cache.get(hashKey(key));
+  return !entry || Date.now() - entry.updatedAt > staleTime;
+}
+
+/**
+ * Run `fetcher` for `key`, or join the request already in flight. Results are
+ * cached; failures keep the previous data and record the error.
+ */
+export function fetchQuery<T>(key: QueryKey, fetcher: () => Promise<T>): Promise<T> {
+  const entry = entryFor(key);
+  entry.fetcher = fetcher;
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const generation = entry.generation;
+  const promise = fetcher().then(
+    (data) => {
+      if (entry.generation === generation) {
+        entry.data = data;
+        entry.error = undefined;
+        entry.updatedAt = Date.now();
+      }
+      return data;
+    },
+    (error) => {
+      if (entry.generation === generation) entry.error = error;
+      throw error;
+    }
+  );
+  entry.promise = promise;
+  notify(entry);
+
+  const settle = () => {
+    if (entry.promise === promise) entry.promise = undefined;
+    notify(entry);
+  };
+  promise.then(settle, settle);
+  return promise;
+}
+
+/** Return cached data when fresh, otherwise fetch (deduplicated). */
+export function ensureQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  staleTime = DEFAULT_STALE_MS
+): Promise<T> {
+  if (!isStale(key, staleTime)) return Promise.resolve(getQueryState<T>(key).data as T);
+  return fetchQuery(key, fetcher);
+}
+
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const entry = entryFor(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
+
+/* =======================
+   Writes
+   ======================= */
+
+/** Replace cached data for every key under `prefix`. Entries without data are skipped. */
+export function setQueriesData<T>(prefix: QueryKey, updater: (data: T) => T) {
+  cache.forEach((entry) => {
+    if (entry.data === undefined || !matches(entry, prefix)) return;
+    entry.data = updater(entry.data as T);
+    entry.generation++;
+    // A request in flight was started before this write; let the next one replace it.
+    entry.promise = undefined;
+    notify(entry);
+  });
+}
+
+/**
+ * Apply `updater` to cached data under `prefix` right away and return a
+ * function that restores the previous data if the mutation fails.
+ */
+export function optimisticUpdate<T>(prefix: QueryKey, updater: (data: T) => T): () => void {
+  const snapshot = new Map<Entry, unknown>();
+  cache.forEach((entry) => {
+    if (entry.data !== undefined && matches(entry, prefix)) snapshot.set(entry, entry.data);
+  });
+  setQueriesData(prefix, updater);
+  return () =>
+    snapshot.forEach((data, entry) => {
+      entry.data = data;
+      entry.generation++;
+      notify(entry);
+    });
+}
+
+/* =======================
+   Invalidation
+   ======================= */
+
+let batchDepth = 0;
+const pendingRefetch = new Set<Entry>();
+
+function refetch(entry: Entry) {
+  if (!entry.fetcher || entry.listeners.size === 0) return;
+  // Refetch silently; the error is recorded on the entry for subscribers.
+  fetchQuery(entry.key, entry.fetcher).catch(() => {});
+}
+
+/**
+ * Mark every key under `prefix` stale. Keys with mounted subscribers refetch
+ * now (or when the enclosing `batchInvalidations` finishes); the rest refetch
+ * on next use.
+ */
+export function invalidateQueries(prefix: QueryKey) {
+  cache.forEach((entry) => {
+    if (!matches(entry, prefix)) return;
+    entry.updatedAt = 0;
+    entry.generation++;
+    entry.promise = undefined;
+    if (batchDepth > 0) pendingRefetch.add(entry);
+    else refetch(entry);
+  });
+}
+
+/** Defer refetches triggered inside `fn` until it settles, so bulk mutations reload once. */
+export async function batchInvalidations<T>(fn: () => Promise<T>): Promise<T> {
+  batchDepth++;
+  try {
+    return await fn();
+  } finally {
+    if (--batchDepth === 0) {
+      const entries = [...pendingRefetch];
+      pendingRefetch.clear();
+      entries.forEach(refetch);
+    }
+  }
+}
+
+/** Drop everything, e.g. on sign-out so the next user never sees cached rows. */
+export function clearQueryCache() {
+  cache.clear();
+  pendingRefetch.clear();
+}
@@ -0,0 +1,150 @@
+// src/services/reportFilters.ts
+import type { Report } from "../types";
+import type { TableQueryConfig, TableSort } from "./tableQuery";
+
+/* =======================
+   Filter & sort model
+   ======================= */
+
+export interface ReportFilters {
+  /** Free text matched against patient name and patient ID. */
+  q: string;
+  status: string;
+  diagnosticType: string;
+  clinic: string;
+  gender: string;
+  bloodType: string;
+  /** ISO dates (YYYY-MM-DD), inclusive. */
+  submittedFrom: string;
+  submittedTo: string;
+  dobFrom: string;
+  dobTo: string;
+}
+
+export type ReportSortKey =
+  | "id"
+  | "patientId"
+  | "patientName"
+  | "diagnosticType"
+  | "diagnosisResult"
+  | "bloodType"
+  | "patientGender"
+  | "dateOfBirth"
+  | "lastChecked"
+  | "submissionDate"
+  | "clinicName"
+  | "status";
+
+export type ReportSort = TableSort<ReportSortKey>;
+
+export const EMPTY_FILTERS: ReportFilters = {
+  q: "",
+  status: "",
+  diagnosticType: "",
+  clinic: "",
+  gender: "",
+  bloodType: "",
+  submittedFrom: "",
+  submittedTo: "",
+  dobFrom: "",
+  dobTo: "",
+};
+
+export const DEFAULT_SORT: ReportSort = { key: "submissionDate", dir: "desc" };
+
+const SORT_KEYS: ReportSortKey[] = [
+  "id",
+  "patientId",
+  "patientName",
+  "diagnosticType",
+  "diagnosisResult",
+  "bloodType",
+  "patientGender",
+  "dateOfBirth",
+  "lastChecked",
+  "submissionDate",
+  "clinicName",
+  "status",
+];
+
+export const REPORT_QUERY: TableQueryConfig<ReportFilters, ReportSortKey> = {
+  emptyFilters: EMPTY_FILTERS,
+  sortKeys: SORT_KEYS,
+  defaultSort: DEFAULT_SORT,
+};
+
+/* =======================
+   Filtering & sorting
+   ======================= */
+
+function toTime(value?: string): number | null {
+  if (!value) return null;
+  const t = new Date(value).getTime();
+  return isNaN(t) ? null : t;
+}
+
+function inRange(value: string | undefined, from: string, to: string): boolean {
+  if (!from && !to) return true;
+  const t = toTime(value);
+  if (t === null) return false;
+  const lo = toTime(from);
+  // `to` is a calendar day; include the whole day.
+  const hi = toTime(to);
+  if (lo !== null && t < lo) return false;
+  if (hi !== null && t >= hi + 24 * 60 * 60 * 1000) return false;
+  return true;
+}
+
+const eqi = (a: string | undefined, b: string) => (a ?? "").toLowerCase() === b.toLowerCase();
+
+export function applyReportFilters(reports: Report[], f: ReportFilters): Report[] {
+  const q = f.q.trim().toLowerCase();
+  return reports.filter(
+    (r) =>
+      (!q ||
+        r.patientName.toLowerCase().includes(q) ||
+        (r.patientId ?? "").toLowerCase().includes(q)) &&
+      (!f.status || eqi(r.status, f.status)) &&
+      (!f.diagnosticType || eqi(r.diagnosticType, f.diagnosticType)) &&
+      (!f.clinic || eqi(r.clinicName, f.clinic)) &&
+      (!f.gender || eqi(r.patientGender, f.gender)) &&
+      (!f.bloodType || eqi(r.bloodType, f.bloodType)) &&
+      inRange(r.submissionDate, f.submittedFrom, f.submittedTo) &&
+      inRange(r.dateOfBirth, f.dobFrom, f.dobTo)
+  );
+}
+
+const DATE_KEYS: ReportSortKey[] = ["dateOfBirth", "lastChecked", "submissionDate"];
+
+/** Stable sort; empty values always go last regardless of direction. */
+export function sortReports(reports: Report[], sort: ReportSort): Report[] {
+  const factor = sort.dir === "asc" ? 1 : -1;
+  const isDate = DATE_KEYS.includes(sort.key);
+
+  return reports
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => {
+      const av = String(a.r[sort.key] ?? "");
+      const bv = String(b.r[sort.key] ?? "");
+      if (!av || !bv) return !av && !bv ? a.i - b.i : av ? -1 : 1;
+
+      let cmp: number;
+      if (isDate) {
+        cmp = (toTime(av) ?? 0) - (toTime(bv) ?? 0);
+      } else {
+        cmp = av.localeCompare(bv, undefined, { numeric: true, sensitivity: "base" });
+      }
+      return cmp * factor || a.i - b.i;
+    })
+    .map(({ r }) => r);
+}
+
+/** Distinct, sorted non-empty values of one field — used to build filter dropdowns. */
+export function distinctValues(reports: Report[], key: keyof Report): string[] {
+  const set = new Set<string>();
+  reports.forEach((r) => {
+    const v = r[key];
+    if (v) set.add(String(v));
+  });
+  return Array.from(set).sort((a, b) => a.localeCompare(b));
+}
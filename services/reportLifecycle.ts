@@ -0,0 +1,99 @@
+// src/services/reportLifecycle.ts
+// Which status changes a report may go through and who may make them. The
+// backend enforces the same table; the UI only uses it to decide what to offer.
+import { ReportStatus, UserRole } from "../types";
+import type { Permission } from "./permissions";
+import { hasPermission } from "./permissions";
+
+/* =======================
+   Transition table
+   ======================= */
+
+export interface StatusTransition {
+  to: ReportStatus;
+  /** Button label for the action. */
+  label: string;
+  /** "system" steps are made by the processing pipeline and never offered in the UI. */
+  permission: Permission | "system";
+}
+
+const SYSTEM = "system" as const;
+
+export const REPORT_TRANSITIONS: Record<ReportStatus, readonly StatusTransition[]> = {
+  [ReportStatus.UPLOADED]: [
+    { to: ReportStatus.PROCESSING, label: "Process", permission: SYSTEM },
+    { to: ReportStatus.PROCESSING_FAILED, label: "Fail", permission: SYSTEM },
+  ],
+  [ReportStatus.PROCESSING]: [
+    { to: ReportStatus.PENDING, label: "Send to review", permission: SYSTEM },
+    { to: ReportStatus.PROCESSING_FAILED, label: "Fail", permission: SYSTEM },
+  ],
+  [ReportStatus.PROCESSING_FAILED]: [
+    { to: ReportStatus.PROCESSING, label: "Retry processing", permission: "report.reprocess" },
+    { to: ReportStatus.ARCHIVED, label: "Archive", permission: "report.archive" },
+  ],
+  [ReportStatus.PENDING]: [
+    { to: ReportStatus.APPROVED, label: "Approve", permission: "report.review" },
+    { to: ReportStatus.REJECTED, label: "Reject", permission: "report.review" },
+  ],
+  [ReportStatus.RESUBMITTED]: [
+    { to: ReportStatus.APPROVED, label: "Approve", permission: "report.review" },
+    { to: ReportStatus.REJECTED, label: "Reject", permission: "report.review" },
+  ],
+  [ReportStatus.REJECTED]: [
+    { to: ReportStatus.RESUBMITTED, label: "Resubmit", permission: "report.resubmit" },
+    { to: ReportStatus.ARCHIVED, label: "Archive", permission: "report.archive" },
+  ],
+  [ReportStatus.APPROVED]: [{ to: ReportStatus.ARCHIVED, label: "Archive", permission: "report.archive" }],
+  [ReportStatus.ARCHIVED]: [],
+  [ReportStatus.UNKNOWN]: [],
+};
+
+/* =======================
+   Labels
+   ======================= */
+
+// Display names that differ from the wire value.
+const STATUS_LABELS: Partial<Record<string, string>> = {
+  [ReportStatus.PENDING]: "Pending Review",
+};
+
+/** What to show for a status. Takes plain strings too, e.g. an audit entry's `statusBefore`. */
+export function reportStatusLabel(status: string): string {
+  return STATUS_LABELS[status] ?? status;
+}
+
+/* =======================
+   Queries
+   ======================= */
+
+/** Transitions out of `from` that `role` may make from the UI. */
+export function allowedTransitions(role: UserRole | null | undefined, from: ReportStatus): StatusTransition[] {
+  return (REPORT_TRANSITIONS[from] ?? []).filter(
+    (t) => t.permission !== SYSTEM && hasPermission(role, t.permission)
+  );
+}
+
+export function canTransition(role: UserRole | null | undefined, from: ReportStatus, to: ReportStatus): boolean {
+  return allowedTransitions(role, from).some((t) => t.to === to);
+}
+
+/** Whether `to` is reachable from `from` at all, regardless of who asks. */
+export function isValidTransition(from: ReportStatus, to: ReportStatus): boolean {
+  return (REPORT_TRANSITIONS[from] ?? []).some((t) => t.to === to);
+}
+
+/** Waiting for an approve/reject decision. */
+export function isAwaitingReview(status: ReportStatus): boolean {
+  return status === ReportStatus.PENDING || status === ReportStatus.RESUBMITTED;
+}
+
+/** Settled states only: a report in the pipeline or awaiting review cannot be deleted. */
+export function isDeletable(status: ReportStatus): boolean {
+  return (
+    status === ReportStatus.APPROVED ||
+    status === ReportStatus.REJECTED ||
+    status === ReportStatus.PROCESSING_FAILED ||
+    status === ReportStatus.ARCHIVED
+  );
+}
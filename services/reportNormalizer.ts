@@ -0,0 +1,184 @@
+// src/services/reportNormalizer.ts
+import type { PatientGender, Report } from "../types";
+import { ReportStatus } from "../types";
+
+/* =======================
+   Raw field aliases
+   ======================= */
+
+// Backend rows come either in the uppercase CSV shape (PATIENTFIRSTNAME, ...)
+// or in the camelCase `Report` shape. Each normalized field lists the raw keys
+// it may be read from, in priority order.
+const FIELD_ALIASES = {
+  id: ["ReportId", "REPORT_ID", "reportId", "id"],
+  patientId: ["PATIENT_ID", "PatientId", "patientId"],
+  patientFirstName: ["PATIENTFIRSTNAME", "patientFirstName"],
+  patientLastName: ["PATIENTLASTNAME", "patientLastName"],
+  patientName: ["patientName", "PatientName"],
+  patientGender: ["PATIENTGENDER", "patientGender"],
+  dateOfBirth: ["DATEOFBIRTH", "dateOfBirth"],
+  diagnosticType: ["DIAGNOSTICTYPE", "diagnosticType"],
+  diagnosisResult: ["DIAGNOSISRESULT", "diagnosisResult"],
+  bloodType: ["BLOODTYPE", "bloodType"],
+  lastChecked: ["LASTCHECKED", "lastChecked"],
+  submissionDate: ["UploadTime", "uploadTime", "submissionDate"],
+  status: ["status", "Status", "STATUS"],
+  uploaderId: ["UploadedBy", "uploadedBy", "uploaderId"],
+  uploaderName: ["UploaderName", "uploaderName"],
+  clinicId: ["CLINIC_ID", "ClinicId", "clinicId"],
+  clinicName: ["ClinicName", "clinicName"],
+  fileUrl: ["S3Key", "fileKey", "fileUrl"],
+  reviewNote: ["ReviewNote", "reviewNote", "note", "Note"],
+  deletedAt: ["DeletedAt", "deletedAt"],
+  deletedBy: ["DeletedBy", "deletedBy"],
+} as const;
+
+const KNOWN_KEYS: ReadonlySet<string> = new Set(
+  Object.values(FIELD_ALIASES).flat()
+);
+
+/* =======================
+   Field parsers
+   ======================= */
+
+function pick(raw: Record<string, unknown>, keys: readonly string[]): string {
+  for (const k of keys) {
+    const v = raw[k];
+    if (v === undefined || v === null) continue;
+    const s = String(v).trim();
+    if (s) return s;
+  }
+  return "";
+}
+
+// Keys are upper-cased with spaces, dashes and underscores removed.
+const STATUS_ALIASES: Record<string, ReportStatus> = {
+  UPLOADED: ReportStatus.UPLOADED,
+  RECEIVED: ReportStatus.UPLOADED,
+  PROCESSING: ReportStatus.PROCESSING,
+  INPROGRESS: ReportStatus.PROCESSING,
+  PROCESSINGFAILED: ReportStatus.PROCESSING_FAILED,
+  FAILED: ReportStatus.PROCESSING_FAILED,
+  ERROR: ReportStatus.PROCESSING_FAILED,
+  PENDING: ReportStatus.PENDING,
+  PENDINGREVIEW: ReportStatus.PENDING,
+  INREVIEW: ReportStatus.PENDING,
+  APPROVED: ReportStatus.APPROVED,
+  REJECTED: ReportStatus.REJECTED,
+  RESUBMITTED: ReportStatus.RESUBMITTED,
+  ARCHIVED: ReportStatus.ARCHIVED,
+};
+
+const unknownStatuses = new Set<string>();
+
+/**
+ * Map any backend status spelling onto the `ReportStatus` enum. Rows without a
+ * status predate the lifecycle and were always awaiting review. An unrecognised
+ * value becomes `UNKNOWN`, which offers no actions, and is reported once in the
+ * console.
+ */
+export function parseReportStatus(value: unknown): ReportStatus {
+  const raw = String(value ?? "").trim();
+  const status = STATUS_ALIASES[raw.toUpperCase().replace(/[\s_-]+/g, "")];
+  if (status) return status;
+  if (raw && !unknownStatuses.has(raw)) {
+    unknownStatuses.add(raw);
+    console.warn(`Unknown report status "${raw}"; showing it as ${ReportStatus.UNKNOWN}.`);
+  }
+  return raw ? ReportStatus.UNKNOWN : ReportStatus.PENDING;
+}
+
+/** Accepts "M"/"Male"/"male", "F"/"Female", anything else non-empty → Other. */
+export function parseGender(value: unknown): PatientGender {
+  const s = String(value ?? "").trim().toUpperCase();
+  if (!s) return "Unknown";
+  if (s === "M" || s === "MALE") return "Male";
+  if (s === "F" || s === "FEMALE") return "Female";
+  return "Other";
+}
+
+/* =======================
+   Normalization
+   ======================= */
+
+export interface NormalizedReport {
+  report: Report;
+  /** Raw keys present on the row that no alias maps to. */
+  unrecognizedFields: string[];
+}
+
+/**
+ * Map one raw backend row into a `Report`. `report.id` is "" when the row
+ * carries no id; callers must not link to or act on such a report.
+ */
+export function normalizeReport(raw: unknown): NormalizedReport {
+  const row: Record<string, unknown> =
+    raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  const firstName = pick(row, FIELD_ALIASES.patientFirstName);
+  const lastName = pick(row, FIELD_ALIASES.patientLastName);
+  const patientId = pick(row, FIELD_ALIASES.patientId);
+  const clinicId = pick(row, FIELD_ALIASES.clinicId);
+
+  const report: Report = {
+    id: pick(row, FIELD_ALIASES.id),
+    patientId: patientId || undefined,
+    patientName:
+      [firstName, lastName].filter(Boolean).join(" ") ||
+      pick(row, FIELD_ALIASES.patientName) ||
+      patientId,
+    patientFirstName: firstName || undefined,
+    patientLastName: lastName || undefined,
+    patientGender: parseGender(pick(row, FIELD_ALIASES.patientGender)),
+    dateOfBirth: pick(row, FIELD_ALIASES.dateOfBirth) || undefined,
+    diagnosticType: pick(row, FIELD_ALIASES.diagnosticType),
+    diagnosisResult: pick(row, FIELD_ALIASES.diagnosisResult) || undefined,
+    bloodType: pick(row, FIELD_ALIASES.bloodType) || undefined,
+    lastChecked: pick(row, FIELD_ALIASES.lastChecked) || undefined,
+    submissionDate: pick(row, FIELD_ALIASES.submissionDate),
+    status: parseReportStatus(pick(row, FIELD_ALIASES.status)),
+    uploaderId: pick(row, FIELD_ALIASES.uploaderId),
+    uploaderName: pick(row, FIELD_ALIASES.uploaderName),
+    clinicId: clinicId || undefined,
+    clinicName: pick(row, FIELD_ALIASES.clinicName) || clinicId,
+    fileUrl: pick(row, FIELD_ALIASES.fileUrl),
+    reviewNote: pick(row, FIELD_ALIASES.reviewNote) || undefined,
+    deletedAt: pick(row, FIELD_ALIASES.deletedAt) || undefined,
+    deletedBy: pick(row, FIELD_ALIASES.deletedBy) || undefined,
+  };
+
+  const unrecognizedFields = Object.keys(row).filter((k) => !KNOWN_KEYS.has(k));
+  return { report, unrecognizedFields };
+}
+
+/**
+ * Normalize a whole API response. Non-array payloads become `[]`.
+ * Rows without an id are dropped: every link, review and delete is addressed
+ * by id, and a made-up one could point at a different report.
+ * Unrecognized raw keys and dropped rows are reported once per call so schema
+ * drift is visible in the console without flooding it per row.
+ */
+export function normalizeReports(raw: unknown): Report[] {
+  if (!Array.isArray(raw)) return [];
+
+  const unknown = new Set<string>();
+  let missingId = 0;
+  const reports: Report[] = [];
+  for (const row of raw) {
+    const { report, unrecognizedFields } = normalizeReport(row);
+    unrecognizedFields.forEach((k) => unknown.add(k));
+    if (report.id) reports.push(report);
+    else missingId++;
+  }
+
+  if (missingId) {
+    console.warn(`[reports] Dropped ${missingId} report row(s) without an id.`);
+  }
+  if (unknown.size) {
+    console.warn(
+      "[reports] Unrecognized report fields:",
+      Array.from(unknown).sort().join(", ")
+    );
+  }
+  return reports;
+}
@@ -0,0 +1,21 @@
+// src/services/reviewNotes.ts
+
+// Rejection categories offered in the review dialog. Edit this list to change
+// what admins can pick; "Other" always requires free text.
+export const REJECTION_REASONS = [
+  "Missing patient information",
+  "Invalid or inconsistent dates",
+  "Wrong diagnostic type",
+  "Duplicate submission",
+  "Illegible or corrupted data",
+  "Other",
+] as const;
+
+export const OTHER_REASON = "Other";
+
+/** Combine a category and free text into the single `note` string `reviewReport` accepts. */
+export function composeReviewNote(reason: string | null, text: string): string | undefined {
+  const detail = text.trim();
+  if (reason && reason !== OTHER_REASON) return detail ? `${reason}: ${detail}` : reason;
+  return detail || undefined;
+}
@@ -0,0 +1,46 @@
+// src/services/sessionTimeout.ts
+// Idle tracking shared across tabs (via localStorage) and the route to return
+// to after a forced sign-out. The limits themselves live in config.session.
+
+const LAST_ACTIVITY_KEY = "medisys_last_activity";
+// Per-tab: the tab that timed out is the one that should land back on the page.
+const RETURN_PATH_KEY = "medisys_return_path";
+
+/* =======================
+   Activity
+   ======================= */
+
+export function readLastActivity(): number {
+  const at = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(at) && at > 0 ? at : Date.now();
+}
+
+export function recordActivity(at = Date.now()) {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+}
+
+/** Activity recorded by other tabs; `storage` events never fire in the writing tab. */
+export function onActivityFromOtherTabs(listener: (at: number) => void): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === LAST_ACTIVITY_KEY && e.newValue) listener(Number(e.newValue));
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
+
+/* =======================
+   Return path
+   ======================= */
+
+export function saveReturnPath(path: string) {
+  if (path && path !== "/" && !path.startsWith("/login")) {
+    sessionStorage.setItem(RETURN_PATH_KEY, path);
+  }
+}
+
+/** Read and forget the saved route, if any. */
+export function consumeReturnPath(): string | null {
+  const path = sessionStorage.getItem(RETURN_PATH_KEY);
+  sessionStorage.removeItem(RETURN_PATH_KEY);
+  return path;
+}
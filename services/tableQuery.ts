@@ -0,0 +1,89 @@
+// src/services/tableQuery.ts
+// Filter, sort and page state shared by the list tables. Filters are flat
+// string fields so they round-trip through the URL query string unchanged.
+
+/* =======================
+   Model
+   ======================= */
+
+export type SortDirection = "asc" | "desc";
+
+export interface TableSort<K extends string> {
+  key: K;
+  dir: SortDirection;
+}
+
+/** What a table filters and sorts on; `emptyFilters` also lists the query parameters it owns. */
+export interface TableQueryConfig<F extends Record<keyof F, string>, K extends string> {
+  emptyFilters: F;
+  sortKeys: readonly K[];
+  defaultSort: TableSort<K>;
+}
+
+/* =======================
+   URL query string
+   ======================= */
+
+export function readFilters<F extends Record<keyof F, string>>(params: URLSearchParams, empty: F): F {
+  const out = { ...empty };
+  (Object.keys(empty) as (keyof F)[]).forEach((k) => {
+    out[k] = (params.get(k as string) ?? "") as F[keyof F];
+  });
+  return out;
+}
+
+export function readSort<K extends string>(
+  params: URLSearchParams,
+  keys: readonly K[],
+  fallback: TableSort<K>
+): TableSort<K> {
+  const key = params.get("sort") as K | null;
+  const dir = params.get("dir") === "asc" ? "asc" : "desc";
+  return key && keys.includes(key) ? { key, dir } : fallback;
+}
+
+// Only non-empty filters and a non-default sort are written so shared links stay short.
+export function writeTableQuery<F extends Record<keyof F, string>, K extends string>(
+  params: URLSearchParams,
+  config: TableQueryConfig<F, K>,
+  filters: F,
+  sort: TableSort<K>
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  (Object.keys(config.emptyFilters) as (keyof F & string)[]).forEach((k) => {
+    if (filters[k]) next.set(k, filters[k]);
+    else next.delete(k);
+  });
+  if (sort.key === config.defaultSort.key && sort.dir === config.defaultSort.dir) {
+    next.delete("sort");
+    next.delete("dir");
+  } else {
+    next.set("sort", sort.key);
+    next.set("dir", sort.dir);
+  }
+  return next;
+}
+
+/* =======================
+   Sorting & paging
+   ======================= */
+
+/** Clicking the active column flips direction; a new column starts ascending. */
+export function toggleSort<K extends string>(sort: TableSort<K>, key: K): TableSort<K> {
+  return { key, dir: sort.key === key && sort.dir === "asc" ? "desc" : "asc" };
+}
+
+/**
+ * Slice out one page. A `page` past the end (e.g. after filtering) is clamped
+ * to the last page; a `pageSize` of 0 means every row on one page.
+ */
+export function paginate<T>(rows: T[], page: number, pageSize: number) {
+  const pageCount = pageSize > 0 ? Math.max(1, Math.ceil(rows.length / pageSize)) : 1;
+  const currentPage = Math.min(page, pageCount);
+  const pageRows = pageSize > 0 ? rows.slice((currentPage - 1) * pageSize, currentPage * pageSize) : rows;
+  return { pageCount, currentPage, pageRows };
+}
+
+export function countActiveFilters<F extends Record<keyof F, string>>(filters: F): number {
+  return Object.values(filters).filter(Boolean).length;
+}
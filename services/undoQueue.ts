@@ -0,0 +1,111 @@
+// src/services/undoQueue.ts
+// Destructive actions staged behind an undo window. The real API call only
+// runs when the window expires (or on flush), so "Undo" never has to reverse
+// anything on the server.
+
+export const UNDO_WINDOW_MS = 10 * 1000;
+
+interface PendingAction {
+  /** Every key the action hides; a bulk action covers several rows. */
+  keys: string[];
+  commit: () => Promise<unknown>;
+  onError?: (err: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+  /** Set once `commit` has started; from then on it can no longer be undone. */
+  committing?: boolean;
+}
+
+// Indexed by each of an action's keys, so a bulk action appears once per row.
+const pending = new Map<string, PendingAction>();
+const listeners = new Set<() => void>();
+
+function changed() {
+  listeners.forEach((l) => l());
+  if (pending.size) window.addEventListener("beforeunload", warnBeforeUnload);
+  else window.removeEventListener("beforeunload", warnBeforeUnload);
+}
+
+// Closing the tab would drop staged actions, so ask first.
+function warnBeforeUnload(e: BeforeUnloadEvent) {
+  e.preventDefault();
+  e.returnValue = "";
+}
+
+function release(action: PendingAction) {
+  action.keys.forEach((key) => pending.delete(key));
+  changed();
+}
+
+// The keys stay pending until `commit` settles, so rows hidden by it don't
+// reappear while the request is in flight (and do reappear if it fails).
+async function run(action: PendingAction) {
+  if (action.committing) return;
+  clearTimeout(action.timer);
+  action.committing = true;
+  try {
+    await action.commit();
+  } catch (err) {
+    console.error(`Staged action ${action.keys.join(", ")} failed:`, err);
+    action.onError?.(err);
+  } finally {
+    release(action);
+  }
+}
+
+/* =======================
+   Public API
+   ======================= */
+
+/**
+ * Run `commit` after `delayMs` unless `undo` is called first. Pass several
+ * keys to stage one action that hides them all, e.g. a bulk delete. Keys that
+ * are already pending keep their original action.
+ * Returns `undo`, which reports whether it was still in time.
+ */
+export function stageAction(
+  key: string | readonly string[],
+  commit: () => Promise<unknown>,
+  options: { delayMs?: number; onError?: (err: unknown) => void } = {}
+): () => boolean {
+  const keys = typeof key === "string" ? [key] : [...key];
+  const fresh = keys.filter((k) => !pending.has(k));
+  if (fresh.length) {
+    const action: PendingAction = {
+      keys: fresh,
+      commit,
+      onError: options.onError,
+      timer: setTimeout(() => run(action), options.delayMs ?? UNDO_WINDOW_MS),
+    };
+    fresh.forEach((k) => pending.set(k, action));
+    changed();
+  }
+  return () => {
+    const actions = new Set(keys.map((k) => pending.get(k)));
+    let undone = true;
+    actions.forEach((action) => {
+      if (!action || action.committing) {
+        undone = false;
+        return;
+      }
+      clearTimeout(action.timer);
+      release(action);
+    });
+    return undone;
+  };
+}
+
+export function isPending(key: string): boolean {
+  return pending.has(key);
+}
+
+export function subscribePending(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Commit everything now, e.g. before sign-out while the session is still valid. */
+export async function flushPendingActions(): Promise<void> {
+  await Promise.all([...new Set(pending.values())].map(run));
+}
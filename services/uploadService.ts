@@ -0,0 +1,168 @@
+// src/services/uploadService.ts
+import { invalidateReports, requestUploadUrl } from "./api";
+import { isMockMode } from "./config";
+
+/* =======================
+   Types
+   ======================= */
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called when a retry is scheduled, before the backoff wait, with the 1-based attempt that will follow it. */
+  onRetry?: (attempt: number, error: Error) => void;
+  /** Extra attempts after the first one for transient S3 failures. */
+  maxRetries?: number;
+  /** First backoff delay; doubles on every retry. */
+  baseDelayMs?: number;
+}
+
+export interface UploadResult {
+  key: string;
+  attempts: number;
+}
+
+const CSV_CONTENT_TYPE = "text/csv";
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+
+/** Error from the S3 PUT; `status` is 0 for network failures. */
+class S3UploadError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "S3UploadError";
+  }
+}
+
+/* =======================
+   Helpers
+   ======================= */
+
+export function isAbortError(err: unknown): boolean {
+  return (err as any)?.name === "AbortError";
+}
+
+function abortError(): DOMException {
+  return new DOMException("Upload cancelled", "AbortError");
+}
+
+// Network drops, throttling and S3 5xx are worth retrying; 4xx (e.g. an expired
+// presigned URL) are not.
+function isTransient(err: unknown): boolean {
+  if (!(err instanceof S3UploadError)) return false;
+  return err.status === 0 || err.status === 408 || err.status === 429 || err.status >= 500;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const t = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(t);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// XHR rather than fetch: fetch has no upload progress events.
+function putWithProgress(
+  url: string,
+  file: Blob,
+  contentType: string,
+  signal?: AbortSignal,
+  onProgress?: (p: UploadProgress) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", contentType);
+
+    xhr.upload.onprogress = (e) => {
+      onProgress?.({ loaded: e.loaded, total: e.lengthComputable ? e.total : file.size });
+    };
+    xhr.onload = () => {
+      cleanup();
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.({ loaded: file.size, total: file.size });
+        resolve();
+      } else {
+        reject(
+          new S3UploadError(
+            xhr.status,
+            `S3 upload failed: ${xhr.status} ${xhr.responseText || xhr.statusText}`
+          )
+        );
+      }
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new S3UploadError(0, "S3 upload failed: network error"));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(abortError());
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(file);
+  });
+}
+
+/* =======================
+   Public API
+   ======================= */
+
+/**
+ * Presign + PUT a report CSV to S3.
+ * Transient PUT failures are retried with exponential backoff against the same
+ * presigned URL; aborting the signal rejects with an `AbortError`.
+ */
+export async function uploadReportFile(
+  file: File,
+  options: UploadOptions = {}
+): Promise<UploadResult> {
+  const {
+    signal,
+    onProgress,
+    onRetry,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  } = options;
+
+  const presign = await requestUploadUrl(file.name, CSV_CONTENT_TYPE, signal);
+  if (signal?.aborted) throw abortError();
+
+  let attempt = 1;
+  for (;;) {
+    try {
+      onProgress?.({ loaded: 0, total: file.size });
+      if (isMockMode()) {
+        const { putMockUpload } = await import("./mockApiService");
+        await putMockUpload(presign.uploadUrl, file, onProgress, signal);
+      } else {
+        await putWithProgress(presign.uploadUrl, file, CSV_CONTENT_TYPE, signal, onProgress);
+      }
+      invalidateReports();
+      return { key: presign.key, attempts: attempt };
+    } catch (err: any) {
+      if (isAbortError(err) || !isTransient(err) || attempt > maxRetries) throw err;
+      onRetry?.(attempt + 1, err);
+      await sleep(baseDelayMs * 2 ** (attempt - 1), signal);
+      attempt++;
+    }
+  }
+}
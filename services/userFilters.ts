@@ -0,0 +1,98 @@
+// src/services/userFilters.ts
+import type { ManagedUser } from "../types";
+import { UserRole } from "../types";
+import type { TableQueryConfig, TableSort } from "./tableQuery";
+
+/* =======================
+   Filter & sort model
+   ======================= */
+
+export interface UserFilters {
+  /** Free text matched against name, email, clinic name and clinic ID. */
+  q: string;
+  /** A `UserRole` value, or "" for any. */
+  role: string;
+  /** Clinic ID, or "" for any. */
+  clinic: string;
+}
+
+export type UserSortKey = "name" | "email" | "role" | "clinic" | "status" | "createdAt";
+
+export type UserSort = TableSort<UserSortKey>;
+
+export const EMPTY_USER_FILTERS: UserFilters = { q: "", role: "", clinic: "" };
+
+// Newest accounts first, matching the order admins usually look for.
+export const DEFAULT_USER_SORT: UserSort = { key: "createdAt", dir: "desc" };
+
+const SORT_KEYS: UserSortKey[] = ["name", "email", "role", "clinic", "status", "createdAt"];
+
+export const USER_QUERY: TableQueryConfig<UserFilters, UserSortKey> = {
+  emptyFilters: EMPTY_USER_FILTERS,
+  sortKeys: SORT_KEYS,
+  defaultSort: DEFAULT_USER_SORT,
+};
+
+/* =======================
+   Filtering & sorting
+   ======================= */
+
+export function applyUserFilters(users: ManagedUser[], f: UserFilters): ManagedUser[] {
+  const q = f.q.trim().toLowerCase();
+  return users.filter(
+    (u) =>
+      (!q ||
+        [u.name, u.email, u.clinicName, u.clinicId].some((v) => (v ?? "").toLowerCase().includes(q))) &&
+      (!f.role || u.role === f.role) &&
+      (!f.clinic || u.clinicId === f.clinic)
+  );
+}
+
+// Privilege order rather than alphabetical, so "role" sorts admins together at one end.
+const ROLE_ORDER: Record<UserRole, number> = {
+  [UserRole.ADMIN]: 0,
+  [UserRole.STAFF]: 1,
+  [UserRole.CLINIC]: 2,
+};
+
+function sortValue(u: ManagedUser, key: UserSortKey): string | number {
+  switch (key) {
+    case "role":
+      return ROLE_ORDER[u.role];
+    case "clinic":
+      return u.clinicName ?? u.clinicId ?? "";
+    case "status":
+      return u.enabled ? u.status : "~DISABLED";
+    case "createdAt": {
+      const t = u.createdAt ? new Date(u.createdAt).getTime() : NaN;
+      return isNaN(t) ? "" : t;
+    }
+    default:
+      return u[key];
+  }
+}
+
+/** Stable sort; empty values always go last regardless of direction. */
+export function sortUsers(users: ManagedUser[], sort: UserSort): ManagedUser[] {
+  const factor = sort.dir === "asc" ? 1 : -1;
+  return users
+    .map((u, i) => ({ u, i, v: sortValue(u, sort.key) }))
+    .sort((a, b) => {
+      if (a.v === "" || b.v === "") return a.v === b.v ? a.i - b.i : a.v === "" ? 1 : -1;
+      const cmp =
+        typeof a.v === "number" && typeof b.v === "number"
+          ? a.v - b.v
+          : String(a.v).localeCompare(String(b.v), undefined, { numeric: true, sensitivity: "base" });
+      return cmp * factor || a.i - b.i;
+    })
+    .map(({ u }) => u);
+}
+
+/** Clinics that appear on at least one user, for the clinic filter. */
+export function userClinicOptions(users: ManagedUser[]): { id: string; name: string }[] {
+  const byId = new Map<string, string>();
+  users.forEach((u) => {
+    if (u.clinicId) byId.set(u.clinicId, u.clinicName ?? u.clinicId);
+  });
+  return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,163 @@
+// src/services/userImport.ts
+import type { Clinic } from "../types";
+import type { CognitoGroup } from "./permissions";
+import { MAX_CSV_BYTES, parseCsv, unterminatedQuoteError } from "./csvValidation";
+import { downloadBlob, toCsv } from "./exportReports";
+
+/* =======================
+   Expected schema
+   ======================= */
+
+/** Columns of the onboarding spreadsheet; NAME is optional (defaults to the email's local part). */
+export const USER_CSV_COLUMNS = ["EMAIL", "ROLE", "CLINIC_ID", "NAME"] as const;
+const REQUIRED_COLUMNS = ["EMAIL", "ROLE"] as const;
+
+export type UserCsvColumn = (typeof USER_CSV_COLUMNS)[number];
+
+const ROLES: readonly CognitoGroup[] = ["ClinicStaff", "MedisysStaff", "MedisysAdmin"];
+// Format check for when the clinic registry could not be loaded.
+const CLINIC_ID_RE = /^CLINIC_[0-9]+$/;
+// Deliberately loose; Cognito does the authoritative check.
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/* =======================
+   Validation
+   ======================= */
+
+export interface UserImportRow {
+  /** 1-based line number in the file (header is line 1). */
+  line: number;
+  email: string;
+  /** Null when the ROLE cell is not one of the known groups. */
+  role: CognitoGroup | null;
+  clinicId: string;
+  name: string;
+  errors: string[];
+}
+
+export interface UserImportValidation {
+  rows: UserImportRow[];
+  missingColumns: UserCsvColumn[];
+  /** Problems with the file as a whole (empty, too large, missing columns, unclosed quote). */
+  fileErrors: string[];
+  invalidRowCount: number;
+  validRows: UserImportRow[];
+}
+
+function parseRole(value: string): CognitoGroup | null {
+  const v = value.replace(/\s+/g, "").toLowerCase();
+  return ROLES.find((r) => r.toLowerCase() === v) ?? null;
+}
+
+function fileError(message: string): UserImportValidation {
+  return { rows: [], missingColumns: [], fileErrors: [message], invalidRowCount: 0, validRows: [] };
+}
+
+/**
+ * Validate an onboarding CSV. `existingEmails` (lower-cased) flags accounts
+ * that already exist; duplicates inside the file are flagged after the first.
+ * With `clinics`, CLINIC_ID must name an active clinic and is rewritten to its
+ * registered id; without, only the format is checked.
+ */
+export function validateUserCsv(
+  text: string,
+  existingEmails: ReadonlySet<string> = new Set(),
+  clinics?: readonly Clinic[]
+): UserImportValidation {
+  const { records, unterminatedQuoteLine } = parseCsv(text);
+  if (unterminatedQuoteLine !== null) return fileError(unterminatedQuoteError(unterminatedQuoteLine));
+  if (records.length === 0) return fileError("The file is empty.");
+
+  const index = new Map(records[0].cells.map((h, i) => [h.trim().toUpperCase(), i]));
+  const missingColumns = REQUIRED_COLUMNS.filter((c) => !index.has(c));
+  if (missingColumns.length) {
+    return { ...fileError(`Missing required column(s): ${missingColumns.join(", ")}`), missingColumns };
+  }
+
+  const cell = (cells: string[], col: UserCsvColumn) => {
+    const i = index.get(col);
+    return i === undefined ? "" : (cells[i] ?? "").trim();
+  };
+
+  const clinicById = clinics && new Map(clinics.map((c) => [c.id.toUpperCase(), c]));
+  const seen = new Set<string>();
+  const rows = records.slice(1).map(({ line, cells }): UserImportRow => {
+    const email = cell(cells, "EMAIL");
+    const roleText = cell(cells, "ROLE");
+    const role = parseRole(roleText);
+    let clinicId = cell(cells, "CLINIC_ID").toUpperCase().replace(/\s+/g, "");
+    const errors: string[] = [];
+
+    const key = email.toLowerCase();
+    if (!email) errors.push("EMAIL is required");
+    else if (!EMAIL_RE.test(email)) errors.push(`EMAIL "${email}" is not a valid address`);
+    else if (existingEmails.has(key)) errors.push("A user with this email already exists");
+    else if (seen.has(key)) errors.push("Duplicate of an earlier row");
+    seen.add(key);
+
+    if (!roleText) errors.push("ROLE is required");
+    else if (!role) errors.push(`ROLE "${roleText}" must be one of ${ROLES.join(", ")}`);
+
+    if (role === "ClinicStaff") {
+      const clinic = clinicById?.get(clinicId);
+      if (!clinicId) errors.push("CLINIC_ID is required for ClinicStaff");
+      else if (clinicById && !clinic) errors.push(`CLINIC_ID "${clinicId}" is not a registered clinic`);
+      else if (clinic?.archived) errors.push(`Clinic ${clinic.id} is archived`);
+      else if (!clinicById && !CLINIC_ID_RE.test(clinicId)) errors.push(`CLINIC_ID "${clinicId}" must look like CLINIC_001`);
+      if (clinic) clinicId = clinic.id;
+    } else if (role && clinicId) {
+      errors.push("CLINIC_ID only applies to ClinicStaff");
+    }
+
+    return { line, email, role, clinicId, name: cell(cells, "NAME"), errors };
+  });
+
+  const fileErrors = rows.length === 0 ? ["The file has a header but no data rows."] : [];
+  const validRows = rows.filter((r) => r.errors.length === 0);
+  return { rows, missingColumns: [], fileErrors, invalidRowCount: rows.length - validRows.length, validRows };
+}
+
+export async function validateUserCsvFile(
+  file: File,
+  existingEmails?: ReadonlySet<string>,
+  clinics?: readonly Clinic[]
+): Promise<UserImportValidation> {
+  if (!/\.csv$/i.test(file.name)) return fileError("Please choose a .csv file.");
+  if (file.size > MAX_CSV_BYTES) return fileError(`File is larger than ${MAX_CSV_BYTES / (1024 * 1024)} MB.`);
+  return validateUserCsv(await file.text(), existingEmails, clinics);
+}
+
+/* =======================
+   Result report
+   ======================= */
+
+export interface UserImportOutcome {
+  row: UserImportRow;
+  /** "skipped" rows did not pass validation and were never sent. */
+  result: "created" | "failed" | "skipped";
+  message?: string;
+}
+
+/** Download one line per input row with its outcome, for the admin's records. */
+export function downloadImportReport(outcomes: UserImportOutcome[], sourceName: string) {
+  const rows = [
+    ["LINE", "EMAIL", "ROLE", "CLINIC_ID", "RESULT", "MESSAGE"],
+    ...outcomes.map(({ row, result, message }) => [
+      String(row.line),
+      row.email,
+      row.role ?? "",
+      row.clinicId,
+      result,
+      message ?? (result === "skipped" ? row.errors.join("; ") : ""),
+    ]),
+  ];
+  const base = sourceName.replace(/\.csv$/i, "");
+  const blob = new Blob(["\uFEFF" + toCsv(rows)], { type: "text/csv;charset=utf-8" });
+  downloadBlob(blob, `${base}-import-results-${new Date().toISOString().slice(0, 10)}.csv`);
+}
+
+/** Empty spreadsheet with the expected header and one example row. */
+export function downloadUserCsvTemplate() {
+  const rows = [[...USER_CSV_COLUMNS], ["jane.doe@clinic.com", "ClinicStaff", "CLINIC_001", "Jane Doe"]];
+  downloadBlob(new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" }), "user-import-template.csv");
+}
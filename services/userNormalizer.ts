@@ -0,0 +1,68 @@
+// src/services/userNormalizer.ts
+import type { ManagedUser } from "../types";
+import { roleFromUserRecord } from "./permissions";
+
+/* =======================
+   Raw field aliases
+   ======================= */
+
+// /all-users rows arrive either flattened (email, clinicId, ...) or in the
+// Cognito ListUsers shape (Username, Enabled, UserStatus, Attributes[]).
+const FIELD_ALIASES = {
+  username: ["Username", "username", "Email", "email"],
+  email: ["Email", "email", "Username", "username"],
+  name: ["name", "Name"],
+  clinicId: ["clinicId", "ClinicId", "custom:clinicId"],
+  clinicName: ["clinicName", "ClinicName", "custom:clinicName"],
+  createdAt: ["createdAt", "CreatedAt", "UserCreateDate"],
+  status: ["UserStatus", "userStatus", "status"],
+} as const;
+
+function pick(raw: Record<string, unknown>, keys: readonly string[]): string {
+  for (const k of keys) {
+    const v = raw[k];
+    if (v === undefined || v === null) continue;
+    const s = String(v).trim();
+    if (s) return s;
+  }
+  return "";
+}
+
+// Cognito attributes ([{ Name, Value }]) are merged in underneath top-level fields.
+function flattenAttributes(row: Record<string, unknown>): Record<string, unknown> {
+  const attrs = row.Attributes ?? row.attributes;
+  if (!Array.isArray(attrs)) return row;
+  const flat: Record<string, unknown> = {};
+  for (const a of attrs) {
+    if (a && typeof a === "object" && "Name" in a) flat[String((a as any).Name)] = (a as any).Value;
+  }
+  return { ...flat, ...row };
+}
+
+/* =======================
+   Normalization
+   ======================= */
+
+/** Map one raw /all-users row into a `ManagedUser`. Missing `Enabled` means enabled. */
+export function normalizeUser(raw: unknown): ManagedUser {
+  const row = flattenAttributes(raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {});
+  const email = pick(row, FIELD_ALIASES.email);
+  const enabled = row.Enabled ?? row.enabled;
+
+  return {
+    username: pick(row, FIELD_ALIASES.username),
+    email,
+    name: pick(row, FIELD_ALIASES.name) || email.split("@")[0] || "Unknown",
+    role: roleFromUserRecord(row),
+    clinicId: pick(row, FIELD_ALIASES.clinicId) || undefined,
+    clinicName: pick(row, FIELD_ALIASES.clinicName) || undefined,
+    createdAt: pick(row, FIELD_ALIASES.createdAt) || undefined,
+    enabled: enabled === undefined || enabled === null ? true : enabled === true || String(enabled).toLowerCase() === "true",
+    status: pick(row, FIELD_ALIASES.status).toUpperCase() || "CONFIRMED",
+  };
+}
+
+/** Normalize a whole /all-users response. Non-array payloads become `[]`. */
+export function normalizeUsers(raw: unknown): ManagedUser[] {
+  return Array.isArray(raw) ? raw.map(normalizeUser) : [];
+}
@@ -5,10 +5,19 @@ export enum UserRole {
   CLINIC = 'Clinic Staff',
 }
 
+/** Report lifecycle; see services/reportLifecycle.ts for the allowed transitions. */
 export enum ReportStatus {
+  UPLOADED = 'Uploaded',
+  PROCESSING = 'Processing',
+  PROCESSING_FAILED = 'Processing Failed',
+  // Wire value the backend stores; shown as "Pending Review" (see reportStatusLabel).
   PENDING = 'Pending',
   APPROVED = 'Approved',
   REJECTED = 'Rejected',
+  RESUBMITTED = 'Resubmitted',
+  ARCHIVED = 'Archived',
+  // Client-side only: a backend value none of the above match. Offers no actions.
+  UNKNOWN = 'Unknown',
 }
 
 export interface User {
@@ -20,17 +29,31 @@ export interface User {
   clinicName?: string;
 }
 
+export type PatientGender = 'Male' | 'Female' | 'Other' | 'Unknown';
+
 export interface Report {
   id: string;
+  patientId?: string;
   patientName: string;
-  patientGender: 'Male' | 'Female' | 'Other';
+  patientFirstName?: string;
+  patientLastName?: string;
+  patientGender: PatientGender;
+  dateOfBirth?: string;
   diagnosticType: string;
+  diagnosisResult?: string;
+  bloodType?: string;
+  lastChecked?: string;
   submissionDate: string;
   status: ReportStatus;
   uploaderId: string;
   uploaderName: string;
+  clinicId?: string;
   clinicName: string;
   fileUrl: string;
+  reviewNote?: string;
+  /** Set on soft-deleted reports (only returned by the recently-deleted list). */
+  deletedAt?: string;
+  deletedBy?: string;
 }
 
 export interface DashboardStats {
@@ -41,3 +64,81 @@ export interface DashboardStats {
   casesByDiagnostic: { name: string; value: number }[];
   genderDistribution: { name: string; value: number }[];
 }
+
+/** Cognito `UserStatus`; anything else the backend sends is kept as-is. */
+export type AccountStatus =
+  | 'CONFIRMED'
+  | 'FORCE_CHANGE_PASSWORD'
+  | 'RESET_REQUIRED'
+  | 'UNCONFIRMED'
+  | (string & {});
+
+/** A user pool account as listed in User Management. */
+export interface ManagedUser {
+  /** What the backend addresses the account by (the email in this pool). */
+  username: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  clinicId?: string;
+  clinicName?: string;
+  createdAt?: string;
+  enabled: boolean;
+  status: AccountStatus;
+}
+
+/** A clinic in the registry. Users and reports refer to it by `id`. */
+export interface Clinic {
+  id: string;
+  name: string;
+  contactName?: string;
+  contactEmail?: string;
+  phone?: string;
+  address?: string;
+  /** Number of user accounts assigned to the clinic. */
+  staffCount: number;
+  createdAt?: string;
+  /** Archived clinics keep their staff and reports but cannot be assigned to new users. */
+  archived: boolean;
+  archivedAt?: string;
+}
+
+/** What an audit entry records. Unknown actions from the backend are kept as-is. */
+export type AuditAction =
+  | 'report.upload'
+  | 'report.review'
+  | 'report.status'
+  | 'report.delete'
+  | 'report.restore'
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'user.enable'
+  | 'user.disable'
+  | 'user.resetPassword'
+  | 'clinic.create'
+  | 'clinic.update'
+  | 'clinic.archive'
+  | 'clinic.unarchive'
+  | (string & {});
+
+export type AuditTargetType = 'report' | 'user' | 'clinic';
+
+/** One entry in the audit log: who did what to which record, and when. */
+export interface AuditEntry {
+  id: string;
+  /** ISO timestamp. */
+  timestamp: string;
+  actorId?: string;
+  actorName: string;
+  actorEmail?: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  /** Report id, user email or clinic id. */
+  targetId: string;
+  /** Review note or a short description of what changed. */
+  note?: string;
+  /** Report status before and after a review, delete or restore. */
+  statusBefore?: string;
+  statusAfter?: string;
+}
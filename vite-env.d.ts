@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: "api" | "mock";
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_COGNITO_DOMAIN?: string;
+  readonly VITE_COGNITO_CLIENT_ID?: string;
+  readonly VITE_COGNITO_REDIRECT_URI?: string;
+  readonly VITE_COGNITO_LOGOUT_URI?: string;
+  readonly VITE_IDLE_TIMEOUT_MINUTES?: string;
+  readonly VITE_SESSION_WARNING_SECONDS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}